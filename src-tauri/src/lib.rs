@@ -1,13 +1,158 @@
+use std::io::{Read, Write};
+use std::net::{IpAddr, Ipv4Addr, SocketAddr, TcpStream, UdpSocket};
+use std::sync::atomic::{AtomicU64, Ordering};
+use std::sync::{Arc, Mutex};
+use std::time::Duration;
+
 #[tauri::command]
 fn exit_app(_app: tauri::AppHandle) {
   std::process::exit(0x0);
 }
 
+// Keyring entries are filed under the app identifier, one per account name
+const KEYRING_SERVICE: &str = "com.Bartam0us.dev";
+
+fn keyring_entry(account: &str) -> Result<keyring::Entry, String> {
+  keyring::Entry::new(KEYRING_SERVICE, account).map_err(|e| e.to_string())
+}
+
+/// The secret stored for `account` in the OS keyring, or None if there is none.
+#[tauri::command]
+fn get_secret(account: String) -> Result<Option<String>, String> {
+  match keyring_entry(&account)?.get_password() {
+    Ok(secret) => Ok(Some(secret)),
+    Err(keyring::Error::NoEntry) => Ok(None),
+    Err(e) => Err(e.to_string()),
+  }
+}
+
+#[tauri::command]
+fn set_secret(account: String, secret: String) -> Result<(), String> {
+  keyring_entry(&account)?.set_password(&secret).map_err(|e| e.to_string())
+}
+
+/// Remove the secret for `account`. Succeeds if there was none.
+#[tauri::command]
+fn delete_secret(account: String) -> Result<(), String> {
+  match keyring_entry(&account)?.delete_credential() {
+    Ok(()) | Err(keyring::Error::NoEntry) => Ok(()),
+    Err(e) => Err(e.to_string()),
+  }
+}
+
+#[derive(serde::Serialize)]
+struct DiscoveredHost {
+  url: String,
+  xml: String,
+}
+
+/// This computer's IPv4 address on the default route. Nothing is sent:
+/// connecting a UDP socket only picks the interface.
+fn local_ipv4() -> Option<Ipv4Addr> {
+  let socket = UdpSocket::bind("0.0.0.0:0").ok()?;
+  socket.connect("8.8.8.8:80").ok()?;
+  match socket.local_addr().ok()?.ip() {
+    IpAddr::V4(ip) if !ip.is_loopback() && !ip.is_unspecified() => Some(ip),
+    _ => None,
+  }
+}
+
+/// Host addresses in `a.b.c.d/n` (a bare address means its /24), without
+/// the network and broadcast addresses. Ranges are capped at /20.
+fn cidr_hosts(cidr: &str) -> Result<Vec<Ipv4Addr>, String> {
+  let (ip, bits) = cidr.trim().split_once('/').unwrap_or((cidr.trim(), "24"));
+  let ip: Ipv4Addr = ip.trim().parse().map_err(|_| format!("\"{}\" is not an IPv4 address", ip.trim()))?;
+  let bits: u32 = bits
+    .trim()
+    .parse()
+    .ok()
+    .filter(|b| (20..=32).contains(b))
+    .ok_or("Use a range from /20 to /32, e.g. 192.168.0.0/24")?;
+  let network = u32::from(ip) & (u32::MAX << (32 - bits));
+  let size = 1u32 << (32 - bits);
+  let range = if size > 2 { 1..size - 1 } else { 0..size };
+  Ok(range.map(|i| Ipv4Addr::from(network + i)).collect())
+}
+
+/// GET /pinpro/sites from one host over plain HTTP. The body when it answers
+/// 200 with something that looks like a sites list.
+fn probe_sites(ip: Ipv4Addr, timeout: Duration) -> Option<String> {
+  let mut stream = TcpStream::connect_timeout(&SocketAddr::from((ip, 80)), timeout).ok()?;
+  stream.set_read_timeout(Some(timeout)).ok()?;
+  stream.set_write_timeout(Some(timeout)).ok()?;
+  write!(stream, "GET /pinpro/sites HTTP/1.0\r\nHost: {}\r\nConnection: close\r\n\r\n", ip).ok()?;
+  let mut buf = Vec::new();
+  stream.take(1 << 20).read_to_end(&mut buf).ok()?;
+  let text = String::from_utf8_lossy(&buf);
+  let (head, body) = text.split_once("\r\n\r\n")?;
+  let ok = head.lines().next()?.split_whitespace().nth(1) == Some("200");
+  (ok && body.contains("<sites")).then(|| body.to_string())
+}
+
+/// Bumped by every scan and every cancel; a scan stops once it's no longer current.
+static DISCOVERY_SCAN: AtomicU64 = AtomicU64::new(0);
+
+/// Stop the running scan. Probes already in flight finish first.
+#[tauri::command]
+fn cancel_discovery() {
+  DISCOVERY_SCAN.fetch_add(1, Ordering::SeqCst);
+}
+
+/// Scan `cidr`, or this computer's /24 when there is none, for PinPro
+/// servers, probing at most `concurrency` hosts at a time. Returns what it
+/// found so far when cancelled.
+#[tauri::command]
+async fn discover_servers(cidr: Option<String>, timeout_ms: u64, concurrency: usize) -> Result<Vec<DiscoveredHost>, String> {
+  let scan = DISCOVERY_SCAN.fetch_add(1, Ordering::SeqCst) + 1;
+  let hosts = match cidr.as_deref().map(str::trim).filter(|c| !c.is_empty()) {
+    Some(c) => cidr_hosts(c)?,
+    None => {
+      let ip = local_ipv4().ok_or("Could not find this computer's network address. Enter a range to scan instead.")?;
+      cidr_hosts(&format!("{}/24", ip))?
+    }
+  };
+  let timeout = Duration::from_millis(timeout_ms.clamp(100, 10_000));
+  let workers = concurrency.clamp(1, 128).min(hosts.len().max(1));
+
+  tauri::async_runtime::spawn_blocking(move || {
+    let queue = Arc::new(Mutex::new(hosts.into_iter()));
+    let found = Arc::new(Mutex::new(Vec::new()));
+    let handles: Vec<_> = (0..workers)
+      .map(|_| {
+        let queue = Arc::clone(&queue);
+        let found = Arc::clone(&found);
+        std::thread::spawn(move || loop {
+          if DISCOVERY_SCAN.load(Ordering::SeqCst) != scan {
+            break;
+          }
+          let next = queue.lock().unwrap().next();
+          let Some(ip) = next else { break };
+          if let Some(xml) = probe_sites(ip, timeout) {
+            found.lock().unwrap().push((ip, xml));
+          }
+        })
+      })
+      .collect();
+    for h in handles {
+      let _ = h.join();
+    }
+    let mut found = std::mem::take(&mut *found.lock().unwrap());
+    found.sort_by_key(|(ip, _)| *ip);
+    found
+      .into_iter()
+      .map(|(ip, xml)| DiscoveredHost { url: format!("http://{}", ip), xml })
+      .collect()
+  })
+  .await
+  .map_err(|e| e.to_string())
+}
+
 #[cfg_attr(mobile, tauri::mobile_entry_point)]
 pub fn run() {
   tauri::Builder::default()
     .plugin(tauri_plugin_http::init())
-    .invoke_handler(tauri::generate_handler![exit_app])
+    .plugin(tauri_plugin_notification::init())
+    .invoke_handler(tauri::generate_handler![exit_app, get_secret, set_secret, delete_secret, discover_servers, cancel_discovery])
     .setup(|app| {
       if cfg!(debug_assertions) {
         app.handle().plugin(
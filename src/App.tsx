@@ -15,80 +15,100 @@
 
 import { useState, useRef, useEffect, useLayoutEffect, useCallback, type MouseEvent } from 'react';
 import './App.css';
-import { checkLocation, checkSite, type LocationCheckResult, type SiteCheckResult } from './pinpro';
+import {
+  DEFAULT_LOCALE, describeError, PinProClient, toCheckResult, type Locale, type LocationCheckResult, type SiteCheckResult,
+} from './pinpro';
+import {
+  appendAuditEntry, cachedStatus, cacheResult, deleteSyncResults, deleteSyncRuns, loadAuditLog, loadSyncCache, loadSyncRuns, MAX_SYNC_RUNS, pruneSyncData,
+  saveSyncResults, saveSyncRun, staleIds, timeAgo, type CachedLocation,
+} from './syncCache';
+import { locationChange, locationHistory, type RunEntry, type SyncRun, type SyncScope } from './syncHistory';
 import { invoke } from '@tauri-apps/api/core';
 import { getPublicIp } from './ipCheck';
+import type { Cam, InventoryItem, LocationItem, Point, TextItem, ZoneItem } from './types';
+import {
+  bootLayouts, cloneItems, DEFAULT_CAM, loadLayoutData, newId, removeLayoutData, savedLocationIds,
+  saveActiveLayoutId, saveLayoutData, saveLayoutIndex, type LayoutMeta,
+} from './layouts';
+import { DEFAULT_AUTO_LAYOUT, placeRows, readLocationCsv, REQUIRED_PREFIX, type AutoLayout } from './csvImport';
+import {
+  drawItems, FONT, heatColor, LINE_COLOR, PALETTE, STROKE_WIDTH, TEXT_COLOR, ZONE_COLOR, ZONE_FONT_SIZE,
+  ZONE_LABEL_INSET, zoneFont,
+} from './render';
+import {
+  boxRect, itemAnchor, itemBounds, locationsInZone, locRect, moveItem, withBoxRect, type Rect,
+} from './geometry';
+import { copyItems, itemsOrigin, parseClipboard, serializeClipboard, type RenameRule } from './clipboard';
+import { alignLocations, ALIGN_LABELS, arrangeAsGrid, distributeLocations, type AlignMode, type Positions } from './arrange';
+import { EMPTY_HISTORY, jumpTo, keepStatuses, plural, recordEntry, type HistoryState } from './history';
+import { formatStamp, printSvg, renderMapPng, renderMapSvg, type MapExportOptions } from './mapExport';
+import { downloadBlob, safeFileName } from './download';
+import { fillLevels, isFailure, occupancyFlip, refreshStatuses, resolveStatus, STATUS_INFO, type LocationStatus } from './status';
+import { dimmedLocations, typeColor, typeSummaries, typeTints } from './itemTypes';
+import {
+  loadSyncResume, loadSyncSettings, runQueue, saveSyncResume, saveSyncSettings, withRetry, type SyncSettings,
+} from './syncQueue';
+import { notifyOs } from './notify';
+import { baseLayer, BASE_LAYER_ID, drawOrder, isLocked, insertByKind, layerOf, mergeLayers, migrateLayers, type Layer } from './layers';
+import { searchItems, type SearchResult } from './search';
+import { initialSteps, runDiagnostics, type DiagnosticStep } from './diagnostics';
+import { discoverServers, type DiscoveredServer } from './discovery';
+import { forgetPassword, loadLegacyPasswordMode, loadPassword, storePassword, type PasswordMode } from './credentials';
+import { bootProfiles, DEFAULT_PREFS, profileAccount, saveActiveProfileId, saveProfiles, type Profile, type ProfilePrefs } from './profiles';
+import { auditCsv, describeEdit, filterAudit, MAX_AUDIT_ENTRIES, type AuditEntry } from './audit';
+import { downloadLayoutFile, fileItems, LayoutFileError, parseLayoutFile, toLayoutFile, type LayoutFile } from './layoutFile';
 
 // Types 
 
-type LocationItem = {
-  id: number;
-  type: 'location';
-  name: string;
-  x: number;
-  y: number;
-  status: 'green' | 'yellow' | 'red';
-  width: number;
-  height: number;
-};
+type ModalType = 'location' | 'text' | 'line' | 'zone' | 'polyline' | 'arrow' | 'csv' | null;
 
-type TextItem = {
-  id: number;
-  type: 'text';
-  content: string;
-  x: number;
-  y: number;
-  fontSize: number;
-};
+/** Drawing tools that place points by clicking. */
+const POINT_TOOLS = ['zone', 'polyline', 'arrow'] as const;
+type PointTool = typeof POINT_TOOLS[number];
+const isPointTool = (m: ModalType): m is PointTool => (POINT_TOOLS as readonly string[]).includes(m ?? '');
 
-type LineItem = {
-  id: number;
-  type: 'line';
-  x1: number;
-  y1: number;
-  x2: number;
-  y2: number;
-};
+const TOOL_LABELS: Record<PointTool, string> = { zone: 'Zone', polyline: 'Polyline', arrow: 'Arrow' };
+const STROKE_OPTIONS = [1, 1.5, 2, 3, 4, 6];
+
+type EditStyle = { color: string; strokeWidth: number; fontSize: number; arrow: boolean };
 
-type InventoryItem = LocationItem | TextItem | LineItem;
-type ModalType = 'location' | 'text' | 'line' | null;
+const itemKind = (it: InventoryItem) =>
+  it.type === 'polyline' ? (it.arrow ? 'arrow' : 'polyline') : it.type === 'line' && it.arrow ? 'arrow' : it.type;
+
+/** `value`, or undefined when it's the default, so unstyled items stay unstyled. */
+const unlessDefault = <T,>(value: T, def: T) => value === def ? undefined : value;
 type Tool = 'select' | 'hand';
-type Cam = { x: number; y: number; z: number };
+type Corner = 'nw' | 'ne' | 'sw' | 'se';
+
+const SYNC_SCOPE_LABELS: Record<SyncScope, string> = {
+  all: 'Sync everything',
+  selection: 'Sync selection',
+  visible: 'Sync visible area',
+  stale: 'Sync stale only',
+};
 
 const GRID = 30;
-const STORAGE_KEY = 'inventory-grid';
-const CAM_KEY = 'inventory-cam';
 const SERVER_KEY = 'inventory-server-url';
+const LOCALE_KEY = 'inventory-locale';
 const MAX_UNDO = 50;
+// Audit entries listed in the panel; filtering and export see them all
+const AUDIT_SHOWN = 300;
 const LINE_HIT = 6;
+const HANDLE = 5;
+const CORNERS: Corner[] = ['nw', 'ne', 'sw', 'se'];
+const FLY_MS = 400;
+const PULSE_MS = 4000;
+const TOAST_MS = 6000;
+const AUTO_SYNC_OPTIONS = [5, 10, 15, 30, 60];
+const AUTO_SYNC_KEY = 'inventory-auto-sync';
+const HIGHLIGHT_MS = 2000;
 const MIN_ZOOM = 0.1;
 const MAX_ZOOM = 5;
-const FONT = '-apple-system, BlinkMacSystemFont, "SF Pro Text", "Segoe UI", sans-serif';
 
 // Helpers
 
 const snap = (v: number) => Math.round(v / GRID) * GRID;
 
-function load(): InventoryItem[] {
-  try { return JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]'); }
-  catch { return []; }
-}
-
-function save(items: InventoryItem[]) {
-  try { localStorage.setItem(STORAGE_KEY, JSON.stringify(items)); } catch { /* silent */ }
-}
-
-function loadCam(): Cam {
-  try {
-    const d = JSON.parse(localStorage.getItem(CAM_KEY) || '{}');
-    return { x: d.x ?? 0, y: d.y ?? 0, z: d.z ?? 1 };
-  } catch { return { x: 0, y: 0, z: 1 }; }
-}
-
-function saveCam(cam: Cam) {
-  try { localStorage.setItem(CAM_KEY, JSON.stringify(cam)); } catch { /* silent */ }
-}
-
 function loadServerUrl(): string {
   try { return localStorage.getItem(SERVER_KEY) || ''; }
   catch { return ''; }
@@ -98,41 +118,80 @@ function saveServerUrl(url: string) {
   try { localStorage.setItem(SERVER_KEY, url); } catch { /* silent */ }
 }
 
-const SITE_KEY = 'inventory-selected-site';
-
-function loadSelectedSite(): SiteCheckResult | null {
+/** Country and language sent to the server with location lookups. */
+function loadLocale(): Locale {
   try {
-    const raw = localStorage.getItem(SITE_KEY);
-    return raw ? JSON.parse(raw) : null;
-  } catch { return null; }
+    const raw = JSON.parse(localStorage.getItem(LOCALE_KEY) ?? '{}') as Partial<Locale>;
+    return {
+      country: typeof raw.country === 'string' && raw.country ? raw.country : DEFAULT_LOCALE.country,
+      language: typeof raw.language === 'string' && raw.language ? raw.language : DEFAULT_LOCALE.language,
+    };
+  } catch { return DEFAULT_LOCALE; }
 }
 
-function saveSelectedSite(site: SiteCheckResult | null) {
-  try {
-    if (site) localStorage.setItem(SITE_KEY, JSON.stringify(site));
-    else localStorage.removeItem(SITE_KEY);
-  } catch { /* silent */ }
+function saveLocale(locale: Locale) {
+  try { localStorage.setItem(LOCALE_KEY, JSON.stringify(locale)); } catch { /* silent */ }
 }
 
+// Settings kept per computer before profiles, read once to fill in the first profile
+
 const USERNAME_KEY = 'inventory-username';
-const PASSWORD_KEY = 'inventory-password';
 
 function loadUsername(): string {
   try { return localStorage.getItem(USERNAME_KEY) || ''; }
   catch { return ''; }
 }
 
-function saveUsername(u: string) {
-  try { localStorage.setItem(USERNAME_KEY, u); } catch { /* silent */ }
+const RENAME_KEY = 'inventory-paste-rename';
+
+function loadRenameRule(): RenameRule {
+  try {
+    const raw = localStorage.getItem(RENAME_KEY);
+    return raw === null ? null : Number(raw);
+  } catch { return null; }
+}
+
+const STALE_KEY = 'inventory-stale-hours';
+const STALE_OPTIONS = [0.25, 0.5, 1, 4, 12, 24, 72, 168];
+
+/** Hours before a sync result counts as stale; null = never. */
+function loadStaleHours(): number | null {
+  try {
+    const raw = localStorage.getItem(STALE_KEY);
+    if (raw === null) return 24;
+    return raw === 'off' ? null : Number(raw) || 24;
+  } catch { return 24; }
 }
 
-function loadPassword(): string {
-  try { return localStorage.getItem(PASSWORD_KEY) || ''; }
-  catch { return ''; }
+const FULL_KEY = 'inventory-full-at';
+
+/** Item count at which an occupied location counts as full; null = off. */
+function loadFullAt(): number | null {
+  try {
+    const n = Number(localStorage.getItem(FULL_KEY));
+    return n > 0 ? n : null;
+  } catch { return null; }
 }
 
-function savePassword(p: string) {
-  try { localStorage.setItem(PASSWORD_KEY, p); } catch { /* silent */ }
+/** Minutes between automatic syncs; null = off. */
+function loadAutoSync(): number | null {
+  try {
+    const n = Number(localStorage.getItem(AUTO_SYNC_KEY));
+    return n > 0 ? n : null;
+  } catch { return null; }
+}
+
+const legacyPrefs = (): ProfilePrefs => ({
+  username: loadUsername(),
+  passwordMode: loadLegacyPasswordMode(),
+  renameRule: loadRenameRule(),
+  staleHours: loadStaleHours(),
+  fullAt: loadFullAt(),
+  autoSync: loadAutoSync(),
+});
+
+function cornerPoint(r: Rect, c: Corner) {
+  return { x: c.endsWith('w') ? r.x : r.x + r.w, y: c.startsWith('n') ? r.y : r.y + r.h };
 }
 
 function ptSegDist(px: number, py: number, x1: number, y1: number, x2: number, y2: number) {
@@ -152,6 +211,44 @@ function rectsHit(ax: number, ay: number, aw: number, ah: number, bx: number, by
 
 // App
 
+/** HTML version of the canvas status marker. */
+function StatusIcon({ status }: { status: LocationStatus }) {
+  const { icon, color } = STATUS_INFO[status];
+  if (icon === 'ring') return <span className="w-2.5 h-2.5 rounded-full border-[1.5px] shrink-0" style={{ borderColor: color }} />;
+  if (icon === 'dot') return <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: color }} />;
+  if (icon === 'full') {
+    return <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: color, boxShadow: `0 0 0 1.5px #FFFFFF, 0 0 0 2.5px ${color}` }} />;
+  }
+  return (
+    <span className="w-3.5 h-3.5 rounded-full shrink-0 flex items-center justify-center text-[9px] font-bold text-white leading-none" style={{ backgroundColor: color }}>
+      {icon}
+    </span>
+  );
+}
+
+/** What "select all" picks: items on visible layers that aren't locked. */
+const selectableIds = (items: InventoryItem[], layers: Layer[]) =>
+  new Set(drawOrder(items, layers).filter(it => !isLocked(it, layers)).map(it => it.id));
+
+function MenuItem({ label, onClick, disabled, danger }: {
+  label: string;
+  onClick: () => void;
+  disabled?: boolean;
+  danger?: boolean;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      className={`w-full text-left px-3.5 py-1.5 text-[13px] ${danger ? 'text-red-500 hover:bg-red-50' : 'text-gray-700 hover:bg-gray-50'} disabled:text-gray-300 disabled:hover:bg-transparent transition-colors`}
+    >
+      {label}
+    </button>
+  );
+}
+
+const MenuDivider = () => <div className="my-1 border-t border-gray-100" />;
+
 function App() {
   useEffect(() => {
     const isTauri = typeof window !== 'undefined' && '__TAURI_INTERNALS__' in (window as any);
@@ -177,42 +274,122 @@ function App() {
     })();
   }, []);
 
+  // Layouts
+  const [boot] = useState(bootLayouts);
+  const [layouts, setLayouts] = useState<LayoutMeta[]>(boot.index);
+  const [activeLayoutId, setActiveLayoutId] = useState(boot.activeId);
+  const [showLayouts, setShowLayouts] = useState(false);
+  const [renamingLayoutId, setRenamingLayoutId] = useState<number | null>(null);
+  const [layoutNameDraft, setLayoutNameDraft] = useState('');
+  const [newLayoutName, setNewLayoutName] = useState('');
+  const [pendingImport, setPendingImport] = useState<LayoutFile | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  // Users
+  const [profileBoot] = useState(() => bootProfiles(legacyPrefs));
+  const [profiles, setProfiles] = useState<Profile[]>(profileBoot.profiles);
+  const [activeProfileId, setActiveProfileId] = useState(profileBoot.active.id);
+  const [showProfiles, setShowProfiles] = useState(false);
+  const [newProfileName, setNewProfileName] = useState('');
+  const [showAudit, setShowAudit] = useState(false);
+  // Null until the panel is first opened
+  const [auditLog, setAuditLog] = useState<AuditEntry[] | null>(null);
+  const [auditQuery, setAuditQuery] = useState('');
+
+  // Image export
+  const [showExport, setShowExport] = useState(false);
+  const [exportTitle, setExportTitle] = useState('');
+  const [exportScope, setExportScope] = useState<'all' | 'selection'>('all');
+  const [exportScale, setExportScale] = useState(2);
+  const [exportError, setExportError] = useState<string | null>(null);
+
   // Core state
-  const [items, setItems] = useState<InventoryItem[]>(load);
+  const [items, setItems] = useState<InventoryItem[]>(boot.data.items);
+  const [layers, setLayers] = useState<Layer[]>(boot.data.layers);
+  // New items go on this layer
+  const [activeLayerId, setActiveLayerId] = useState(BASE_LAYER_ID);
+  const [showLayers, setShowLayers] = useState(false);
+  const [renamingLayerId, setRenamingLayerId] = useState<number | null>(null);
+  const [layerNameDraft, setLayerNameDraft] = useState('');
   const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
   const [activeModal, setActiveModal] = useState<ModalType>(null);
   const [lineStart, setLineStart] = useState<{ x: number; y: number } | null>(null);
 
   // Camera
-  const [cam, setCam] = useState<Cam>(loadCam);
+  const [cam, setCam] = useState<Cam>(boot.data.cam);
   const [tool, setTool] = useState<Tool>('select');
 
   // Interaction state
   const [isDragging, setIsDragging] = useState(false);
   const [isSelecting, setIsSelecting] = useState(false);
   const [isPanning, setIsPanning] = useState(false);
+  const [isResizing, setIsResizing] = useState(false);
+  const [hoverCorner, setHoverCorner] = useState<Corner | null>(null);
   const [spaceHeld, setSpaceHeld] = useState(false);
   const [selBox, setSelBox] = useState<{ x1: number; y1: number; x2: number; y2: number } | null>(null);
   const [renderKey, setRenderKey] = useState(0);
 
+  // Arrange tools
+  const [arrangeCols, setArrangeCols] = useState(4);
+  const [arrangeSpacing, setArrangeSpacing] = useState(1);
+
   // Edit panel
   const [editingItem, setEditingItem] = useState<InventoryItem | null>(null);
   const [editName, setEditName] = useState('');
   const [editContent, setEditContent] = useState('');
+  const [editStyle, setEditStyle] = useState<EditStyle>({ color: TEXT_COLOR, strokeWidth: STROKE_WIDTH, fontSize: 14, arrow: false });
+  // Points placed so far with a zone, polyline or arrow tool
+  const [drawPoints, setDrawPoints] = useState<Point[]>([]);
+  const [showShapeMenu, setShowShapeMenu] = useState(false);
 
   // Settings
   const [showSettings, setShowSettings] = useState(false);
   const [serverUrl, setServerUrl] = useState(loadServerUrl);
-  const [selectedSite, setSelectedSite] = useState<SiteCheckResult | null>(loadSelectedSite);
+  const [locale, setLocale] = useState<Locale>(loadLocale);
+  const [selectedSite, setSelectedSite] = useState<SiteCheckResult | null>(boot.data.site);
+  const [lastSync, setLastSync] = useState<number | null>(boot.data.lastSync);
   const [sites, setSites] = useState<SiteCheckResult[]>([]);
   const [loadingSites, setLoadingSites] = useState(false);
-  const [username, setUsername] = useState(loadUsername);
-  const [password, setPassword] = useState(loadPassword);
+  const [sitesError, setSitesError] = useState<string | null>(null);
+  // Connection test results, null until the first test
+  const [diagSteps, setDiagSteps] = useState<DiagnosticStep[] | null>(null);
+  const [showDiscover, setShowDiscover] = useState(false);
+  // Empty = this computer's network
+  const [discoverRange, setDiscoverRange] = useState('');
+  const [discovering, setDiscovering] = useState(false);
+  const [discovered, setDiscovered] = useState<DiscoveredServer[] | null>(null);
+  const [discoverError, setDiscoverError] = useState<string | null>(null);
+  const [username, setUsername] = useState(profileBoot.active.prefs.username);
+  // Loaded from the keyring after mount; in 'prompt' mode it only lives for this session
+  const [password, setPassword] = useState('');
+  const [passwordMode, setPasswordMode] = useState<PasswordMode>(profileBoot.active.prefs.passwordMode);
+  const passwordLoadedRef = useRef(false);
+  const [passwordPrompt, setPasswordPrompt] = useState<SyncScope | null>(null);
+  const [promptPassword, setPromptPassword] = useState('');
+  const [renameRule, setRenameRule] = useState<RenameRule>(profileBoot.active.prefs.renameRule);
+  const [staleHours, setStaleHours] = useState<number | null>(profileBoot.active.prefs.staleHours);
+  const [fullAt, setFullAt] = useState<number | null>(profileBoot.active.prefs.fullAt);
+  const [cacheLoaded, setCacheLoaded] = useState(false);
+  const [heatmap, setHeatmap] = useState(false);
+  const [bulkCapacity, setBulkCapacity] = useState('');
+  const [showTypes, setShowTypes] = useState(false);
+  const [typeFilter, setTypeFilter] = useState<Set<string>>(new Set());
+  const [colorByType, setColorByType] = useState(false);
+  const [now, setNow] = useState(Date.now);
   const [isSyncing, setIsSyncing] = useState(false);
   const [syncProgress, setSyncProgress] = useState(0);
   const [syncTotal, setSyncTotal] = useState(0);
+  const [syncSettings, setSyncSettings] = useState<SyncSettings>(loadSyncSettings);
+  // A sync interrupted by closing the app; kept in localStorage while a run is going
+  const [syncResume, setSyncResume] = useState(loadSyncResume);
+  const [showSyncMenu, setShowSyncMenu] = useState(false);
+  // Screen position of an open right-click menu, the world point under it, and whether it was on an item
+  const [contextMenu, setContextMenu] = useState<{ x: number; y: number; wx: number; wy: number; onItem: boolean } | null>(null);
+  const [autoSync, setAutoSync] = useState<number | null>(profileBoot.active.prefs.autoSync);
+  const [pulses, setPulses] = useState<Map<number, number>>(new Map());
+  const [toasts, setToasts] = useState<Array<{ id: number; title: string; body: string }>>([]);
   const [sidePanelLocId, setSidePanelLocId] = useState<number | null>(null);
-  const locationDataRef = useRef<Map<number, LocationCheckResult['items']>>(new Map());
+  const locationDataRef = useRef<Map<number, CachedLocation>>(new Map());
 
   // Form state
   const [locName, setLocName] = useState('');
@@ -221,71 +398,299 @@ function App() {
   const [bMode, setBMode] = useState<'numbers' | 'letters'>('numbers');
   const [bFrom, setBFrom] = useState('');
   const [bTo, setBTo] = useState('');
+  const [csvText, setCsvText] = useState('');
+  // null: guess whether the first line is a header
+  const [csvHeader, setCsvHeader] = useState<boolean | null>(null);
+  const [csvError, setCsvError] = useState<string | null>(null);
+  const [csvLayout, setCsvLayout] = useState<AutoLayout>(DEFAULT_AUTO_LAYOUT);
+  const [csvSkipDupes, setCsvSkipDupes] = useState(true);
+  const [csvAddPrefix, setCsvAddPrefix] = useState(false);
 
   // Refs
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const historyRef = useRef<InventoryItem[][]>([]);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const csvInputRef = useRef<HTMLInputElement>(null);
+  const [history, setHistory] = useState<HistoryState>(EMPTY_HISTORY);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showSearch, setShowSearch] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchIndex, setSearchIndex] = useState(0);
+  const [highlightId, setHighlightId] = useState<number | null>(null);
+  const [syncRuns, setSyncRuns] = useState<SyncRun[]>([]);
+  const [summaryRunId, setSummaryRunId] = useState<number | null>(null);
+  const [sidePanelTab, setSidePanelTab] = useState<'items' | 'history'>('items');
+  const historyRef = useRef(history); historyRef.current = history;
   const itemsRef = useRef(items); itemsRef.current = items;
   const selectedRef = useRef(selectedIds); selectedRef.current = selectedIds;
   const camRef = useRef(cam); camRef.current = cam;
+  const siteRef = useRef(selectedSite); siteRef.current = selectedSite;
+  const lastSyncRef = useRef(lastSync); lastSyncRef.current = lastSync;
+  const layersRef = useRef(layers); layersRef.current = layers;
+  const layoutIdRef = useRef(activeLayoutId); layoutIdRef.current = activeLayoutId;
+  const layoutsRef = useRef(layouts); layoutsRef.current = layouts;
+  const profileIdRef = useRef(activeProfileId); profileIdRef.current = activeProfileId;
   const spaceRef = useRef(false);
   const dragRef = useRef<{
     startX: number; startY: number;
     primaryId: number; primaryX: number; primaryY: number;
-    positions: Map<number, { x: number; y: number; x1?: number; y1?: number; x2?: number; y2?: number }>;
+    /** The dragged items as they were when the drag started. */
+    positions: Map<number, InventoryItem>;
+    before: InventoryItem[]; moved: boolean;
   } | null>(null);
   const panRef = useRef<{ sx: number; sy: number; cx: number; cy: number } | null>(null);
+  const syncAbortRef = useRef<AbortController | null>(null);
+  const diagAbortRef = useRef<AbortController | null>(null);
+  const discoverAbortRef = useRef<AbortController | null>(null);
+  const flyRef = useRef(0);
+  const highlightTimer = useRef<ReturnType<typeof setTimeout>>(undefined);
+  const resizeRef = useRef<{ id: number; corner: Corner; rect: Rect; before: InventoryItem[] } | null>(null);
+  const hoverRef = useRef<{ x: number; y: number } | null>(null);
+  const clipboardRef = useRef<InventoryItem[]>([]);
+  const copiedTextRef = useRef('');
+  const renameRef = useRef(renameRule); renameRef.current = renameRule;
+  // Where "Add location/text here" puts the new item; null = middle of the view
+  const placeAtRef = useRef<{ x: number; y: number } | null>(null);
+  const nameInputRef = useRef<HTMLInputElement>(null);
+
+  const activeProfile = profiles.find(p => p.id === activeProfileId) ?? profiles[0];
+  const profileNameRef = useRef(activeProfile.name); profileNameRef.current = activeProfile.name;
+
+  // Audit log: who changed which layout, and when
+  const audit = useCallback((action: string) => {
+    const entry: AuditEntry = {
+      id: newId(),
+      at: Date.now(),
+      user: profileNameRef.current,
+      layout: layoutsRef.current.find(l => l.id === layoutIdRef.current)?.name ?? '',
+      action,
+    };
+    appendAuditEntry(entry);
+    setAuditLog(prev => prev && [...prev, entry].slice(-MAX_AUDIT_ENTRIES));
+  }, []);
 
   // History
-  const pushHistory = () => {
-    historyRef.current = [
-      ...historyRef.current.slice(-(MAX_UNDO - 1)),
-      JSON.parse(JSON.stringify(itemsRef.current)),
-    ];
+  const recordHistory = useCallback((label: string, before: InventoryItem[], after: InventoryItem[]) => {
+    const h = recordEntry(historyRef.current, { label, before, after }, MAX_UNDO);
+    historyRef.current = h;
+    setHistory(h);
+    audit(describeEdit(label, before, after));
+  }, [audit]);
+
+  // Apply a change to the items as one labelled, undoable step
+  const edit = useCallback((label: string, fn: (prev: InventoryItem[]) => InventoryItem[]) => {
+    const before = itemsRef.current;
+    const after = fn(before);
+    itemsRef.current = after;
+    recordHistory(label, before, after);
+    setItems(after);
+  }, [recordHistory]);
+
+  const resetHistory = () => {
+    historyRef.current = EMPTY_HISTORY;
+    setHistory(EMPTY_HISTORY);
   };
 
+  // Move to a point in history (0 = oldest state kept)
+  const goToHistory = useCallback((position: number) => {
+    const { past, future } = historyRef.current;
+    const res = jumpTo(historyRef.current, position);
+    if (!res) return;
+    audit(position < past.length
+      ? `Undo ${past.slice(position).map(e => e.label).reverse().join(', ')}`
+      : `Redo ${future.slice(0, position - past.length).map(e => e.label).join(', ')}`);
+    historyRef.current = res.history;
+    setHistory(res.history);
+    setItems(keepStatuses(res.items, itemsRef.current));
+    setSelectedIds(new Set());
+  }, [audit]);
+
+  const handleUndo = useCallback(() => goToHistory(historyRef.current.past.length - 1), [goToHistory]);
+  const handleRedo = useCallback(() => goToHistory(historyRef.current.past.length + 1), [goToHistory]);
+
   // Keep data in sync
 
+  // Write the active layout straight away (used before switching away from it)
+  const flushLayout = () => {
+    saveLayoutData(layoutIdRef.current, {
+      items: itemsRef.current,
+      layers: layersRef.current,
+      cam: camRef.current,
+      site: siteRef.current,
+      lastSync: lastSyncRef.current,
+    });
+  };
+
   useEffect(() => {
-    const t = setTimeout(() => save(items), 200);
+    const t = setTimeout(() => saveLayoutData(activeLayoutId, { items, layers, cam, site: selectedSite, lastSync }), 200);
     return () => clearTimeout(t);
-  }, [items]);
+  }, [items, layers, cam, selectedSite, lastSync, activeLayoutId]);
 
   useEffect(() => {
-    const t = setTimeout(() => saveCam(cam), 200);
-    return () => clearTimeout(t);
-  }, [cam]);
+    saveLayoutIndex(layouts);
+  }, [layouts]);
+
+  useEffect(() => {
+    saveActiveLayoutId(activeLayoutId);
+  }, [activeLayoutId]);
 
   useEffect(() => {
     saveServerUrl(serverUrl);
   }, [serverUrl]);
 
   useEffect(() => {
-    saveSelectedSite(selectedSite);
-  }, [selectedSite]);
+    saveLocale(locale);
+  }, [locale]);
+
+  useEffect(() => {
+    let live = true;
+    const { id, prefs } = profileBoot.active;
+    loadPassword(profileAccount(id), prefs.passwordMode).then(p => {
+      if (!live) return;
+      passwordLoadedRef.current = true;
+      setPassword(p);
+    });
+    return () => { live = false; };
+  }, [profileBoot]);
+
+  useEffect(() => {
+    if (!passwordLoadedRef.current) return;
+    const account = profileAccount(activeProfileId);
+    // Wait for typing to pause rather than writing the keyring on every keystroke
+    const t = setTimeout(() => {
+      if (passwordMode === 'store') storePassword(account, password);
+      else forgetPassword(account);
+    }, 500);
+    return () => clearTimeout(t);
+  }, [password, passwordMode, activeProfileId]);
+
+  // The active profile's record always holds the settings as they are now
+  useEffect(() => {
+    saveActiveProfileId(activeProfileId);
+    saveProfiles(profiles.map(p => p.id === activeProfileId
+      ? { ...p, prefs: { username, passwordMode, renameRule, staleHours, fullAt, autoSync } }
+      : p));
+  }, [profiles, activeProfileId, username, passwordMode, renameRule, staleHours, fullAt, autoSync]);
+
+  useEffect(() => {
+    saveSyncSettings(syncSettings);
+  }, [syncSettings]);
+
+  // Pulse animation for recently changed locations
+
+  useEffect(() => {
+    if (pulses.size === 0) return;
+    const t = setInterval(() => {
+      const cutoff = Date.now() - PULSE_MS;
+      setPulses(prev => {
+        const next = new Map([...prev].filter(([, start]) => start > cutoff));
+        return next.size === prev.size ? new Map(prev) : next;
+      });
+    }, 50);
+    return () => clearInterval(t);
+  }, [pulses.size]);
+
+  // Cached sync results from earlier sessions
+
+  useEffect(() => {
+    // Locations deleted in earlier sessions leave cached results behind; drop them first
+    pruneSyncData(savedLocationIds()).then(loadSyncCache).then(cache => {
+      cache.forEach((entry, id) => {
+        if (!locationDataRef.current.has(id)) locationDataRef.current.set(id, entry);
+      });
+      setCacheLoaded(true);
+    });
+  }, []);
+
+  // Statuses from cached results (not an edit, so no history)
 
   useEffect(() => {
-    saveUsername(username);
-  }, [username]);
+    if (!cacheLoaded) return;
+    setItems(prev => refreshStatuses(prev, locationDataRef.current, fullAt));
+  }, [cacheLoaded, fullAt, activeLayoutId, items]);
+
+  // Sync runs of the open layout
+
+  useEffect(() => {
+    let live = true;
+    setSyncRuns([]);
+    loadSyncRuns(activeLayoutId).then(runs => { if (live) setSyncRuns(runs); });
+    return () => { live = false; };
+  }, [activeLayoutId]);
+
+  // Clock for "checked X ago" and staleness
 
   useEffect(() => {
-    savePassword(password);
-  }, [password]);
+    const t = setInterval(() => setNow(Date.now()), 60000);
+    return () => clearInterval(t);
+  }, []);
 
   // Fetch sites when settings modal opens and serverUrl is set
   const fetchSites = useCallback(async () => {
     if (!serverUrl.trim()) return;
     setLoadingSites(true);
     try {
-      const result = await checkSite(serverUrl.trim());
-      setSites(result);
+      const res = await new PinProClient({ baseUrl: serverUrl, timeoutMs: syncSettings.timeoutMs }).getSites();
+      setSites(res.ok ? res.value : []);
+      setSitesError(res.ok ? null : describeError(res.error));
     } finally {
       setLoadingSites(false);
     }
-  }, [serverUrl]);
+  }, [serverUrl, syncSettings.timeoutMs]);
+
+  const testConnection = async () => {
+    diagAbortRef.current?.abort();
+    const ctrl = new AbortController();
+    diagAbortRef.current = ctrl;
+    setDiagSteps(initialSteps());
+    const found = await runDiagnostics(
+      { serverUrl, siteId: selectedSite?.siteId ?? null, username, password, locale },
+      step => { if (!ctrl.signal.aborted) setDiagSteps(prev => prev && prev.map(st => st.id === step.id ? step : st)); },
+      syncSettings.timeoutMs,
+      ctrl.signal,
+    );
+    if (ctrl.signal.aborted) return;
+    diagAbortRef.current = null;
+    if (found) {
+      setSites(found);
+      setSitesError(null);
+    }
+  };
+
+  const handleDiscover = async () => {
+    if (discovering) {
+      discoverAbortRef.current?.abort();
+      return;
+    }
+    const ctrl = new AbortController();
+    discoverAbortRef.current = ctrl;
+    setDiscovering(true);
+    setDiscovered(null);
+    setDiscoverError(null);
+    try {
+      const found = await discoverServers(discoverRange, ctrl.signal);
+      if (!ctrl.signal.aborted) setDiscovered(found);
+    } catch (err) {
+      setDiscoverError(err instanceof Error ? err.message : String(err));
+    } finally {
+      discoverAbortRef.current = null;
+      setDiscovering(false);
+    }
+  };
+
+  const pickDiscovered = (server: DiscoveredServer, site: SiteCheckResult) => {
+    setServerUrl(server.url);
+    setSites(server.sites);
+    setSelectedSite(site);
+    setSitesError(null);
+    setShowDiscover(false);
+  };
+
+  const testingConnection = diagSteps?.some(st => st.state === 'pending' || st.state === 'running') ?? false;
 
   useEffect(() => {
-    const fn = () => { save(itemsRef.current); saveCam(camRef.current); };
+    const fn = () => saveLayoutData(layoutIdRef.current, {
+      items: itemsRef.current, layers: layersRef.current, cam: camRef.current, site: siteRef.current, lastSync: lastSyncRef.current,
+    });
     window.addEventListener('beforeunload', fn);
     return () => window.removeEventListener('beforeunload', fn);
   }, []);
@@ -343,6 +748,14 @@ function App() {
     return { x: e.clientX - r.left, y: e.clientY - r.top };
   };
 
+  /** The part of the world currently on screen. */
+  const visibleRect = useCallback((): Rect => {
+    const c = camRef.current;
+    const cw = canvasRef.current?.offsetWidth || 800;
+    const ch = canvasRef.current?.offsetHeight || 600;
+    return { x: -c.x / c.z, y: -c.y / c.z, w: cw / c.z, h: ch / c.z };
+  }, []);
+
   const viewCenter = () => {
     const cw = canvasRef.current?.offsetWidth || 800;
     const ch = canvasRef.current?.offsetHeight || 600;
@@ -351,35 +764,32 @@ function App() {
 
   // Item creation 
 
-  const addLocation = (name: string, x: number, y: number, status: 'green' | 'yellow' | 'red' = 'green') => {
-    pushHistory();
-    setItems(prev => [...prev, {
+  const addLocation = (name: string, x: number, y: number, status: LocationStatus = 'unchecked') => {
+    edit(`Add ${name}`, prev => [...prev, {
       id: Date.now() + Math.random(), type: 'location' as const, name,
-      x: snap(x), y: snap(y), status, width: 120, height: 40,
+      x: snap(x), y: snap(y), status, width: 120, height: 40, layer: activeLayerId,
     }]);
   };
 
   const addText = (text: string, x: number, y: number) => {
-    pushHistory();
-    setItems(prev => [...prev, {
+    edit('Add text', prev => [...prev, {
       id: Date.now() + Math.random(), type: 'text' as const, content: text,
-      x: snap(x), y: snap(y), fontSize: 14,
+      x: snap(x), y: snap(y), fontSize: 14, layer: activeLayerId,
     }]);
   };
 
   const addLine = (x1: number, y1: number, x2: number, y2: number) => {
-    pushHistory();
-    setItems(prev => [...prev, {
+    edit('Add line', prev => insertByKind(prev, [{
       id: Date.now() + Math.random(), type: 'line' as const,
-      x1: snap(x1), y1: snap(y1), x2: snap(x2), y2: snap(y2),
-    }]);
+      x1: snap(x1), y1: snap(y1), x2: snap(x2), y2: snap(y2), layer: activeLayerId,
+    }]));
   };
 
   // Modal handlers 
 
   const handleAddLoc = () => {
     if (!locName.trim()) return;
-    const c = viewCenter();
+    const c = placeAtRef.current ?? viewCenter();
     addLocation(locName, c.x, c.y);
     setLocName('');
     setActiveModal(null);
@@ -387,7 +797,7 @@ function App() {
 
   const handleAddTxt = () => {
     if (!txtContent.trim()) return;
-    const c = viewCenter();
+    const c = placeAtRef.current ?? viewCenter();
     addText(txtContent, c.x, c.y);
     setTxtContent('');
     setActiveModal(null);
@@ -402,89 +812,307 @@ function App() {
       if (!a || !b || a.length !== 1 || b.length !== 1 || a > b) return;
       const start = a.charCodeAt(0), end = b.charCodeAt(0);
       if (start < 65 || end > 90) return; // A-Z only
-      pushHistory();
       const batch: LocationItem[] = [];
       let yOff = GRID * 2, xOff = GRID * 2;
       for (let c = start; c <= end; c++) {
         batch.push({
           id: Date.now() + Math.random() + c, type: 'location',
           name: `${bBase.trimStart()}${String.fromCharCode(c)}`,
-          x: snap(xOff), y: snap(yOff), status: 'green', width: 120, height: 40,
+          x: snap(xOff), y: snap(yOff), status: 'unchecked', width: 120, height: 40, layer: activeLayerId,
         });
         yOff += GRID * 2;
         if ((c - start + 1) % 10 === 0) { yOff = GRID * 2; xOff += GRID * 5; }
       }
-      setItems(prev => [...prev, ...batch]);
+      edit(`Add ${plural(batch.length, 'location')}`, prev => [...prev, ...batch]);
     } else {
       if (isNaN(from) || isNaN(to) || from > to) return;
-      pushHistory();
       const batch: LocationItem[] = [];
       let yOff = GRID * 2, xOff = GRID * 2;
       for (let i = from; i <= to; i++) {
         batch.push({
           id: Date.now() + Math.random() + i, type: 'location',
           name: `${bBase.trimStart()}${i}`,
-          x: snap(xOff), y: snap(yOff), status: 'green', width: 120, height: 40,
+          x: snap(xOff), y: snap(yOff), status: 'unchecked', width: 120, height: 40, layer: activeLayerId,
         });
         yOff += GRID * 2;
         if ((i - from + 1) % 10 === 0) { yOff = GRID * 2; xOff += GRID * 5; }
       }
-      setItems(prev => [...prev, ...batch]);
+      edit(`Add ${plural(batch.length, 'location')}`, prev => [...prev, ...batch]);
     }
 
     setBBase(''); setBFrom(''); setBTo('');
     setActiveModal(null);
   };
 
+  // CSV import
+
+  const csvRead = activeModal === 'csv' ? readLocationCsv(csvText, csvHeader ?? undefined) : { rows: [], hasHeader: false };
+  const csvRows = csvRead.rows;
+
+  const csvPreview = (() => {
+    if (activeModal !== 'csv' || csvRows.length === 0) return [];
+    const rows = csvAddPrefix
+      ? csvRows.map(r => r.name.startsWith(REQUIRED_PREFIX) ? r : { ...r, name: REQUIRED_PREFIX + r.name })
+      : csvRows;
+    const existing = new Set(
+      items.filter((it): it is LocationItem => it.type === 'location').map(it => it.name.toUpperCase())
+    );
+    // Start to the right of whatever is already on the canvas
+    let maxX = -Infinity;
+    items.forEach(it => {
+      const b = itemBounds(it, () => 0);
+      maxX = Math.max(maxX, b.x + b.w);
+    });
+    const origin = { x: maxX === -Infinity ? GRID * 2 : snap(maxX) + GRID * 2, y: GRID * 2 };
+    return placeRows(rows, csvLayout, GRID, origin, existing);
+  })();
+
+  const handleCsvFile = async (file: File) => {
+    setCsvHeader(null);
+    try {
+      setCsvText(await file.text());
+      setCsvError(null);
+    } catch (error) {
+      setCsvText('');
+      setCsvError(`Couldn't read ${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const closeCsv = () => {
+    setActiveModal(null);
+    setCsvText('');
+    setCsvError(null);
+  };
+
+  const handleCsvImport = () => {
+    const rows = csvPreview.filter(r => !(csvSkipDupes && r.duplicate));
+    if (rows.length === 0) return;
+    const batch: LocationItem[] = rows.map(r => ({
+      id: newId(), type: 'location', name: r.name,
+      x: snap(r.px), y: snap(r.py), status: 'unchecked', width: 120, height: 40, layer: activeLayerId,
+    }));
+    edit(`Import ${plural(batch.length, 'location')}`, prev => [...prev, ...batch]);
+    closeCsv();
+  };
+
   // Edit handlers
 
+  const openEditor = (it: InventoryItem) => {
+    if (it.type === 'location') return;
+    setEditingItem(it);
+    setEditContent(it.type === 'text' ? it.content : it.type === 'zone' ? it.label : '');
+    setEditStyle({
+      color: it.color ?? (it.type === 'text' ? TEXT_COLOR : it.type === 'zone' ? ZONE_COLOR : LINE_COLOR),
+      strokeWidth: it.type === 'text' ? STROKE_WIDTH : it.strokeWidth ?? STROKE_WIDTH,
+      fontSize: it.type === 'text' ? it.fontSize : it.type === 'zone' ? it.fontSize ?? ZONE_FONT_SIZE : 14,
+      arrow: (it.type === 'line' || it.type === 'polyline') && !!it.arrow,
+    });
+    setSelectedIds(new Set([it.id]));
+  };
+
   const handleSaveEdit = () => {
     if (!editingItem) return;
-    pushHistory();
-    if (editingItem.type === 'text') {
-      if (!editContent.trim()) return;
-      setItems(prev => prev.map(it =>
-        it.id === editingItem.id && it.type === 'text'
-          ? { ...it, content: editContent.trim() }
-          : it
-      ));
+    if (editingItem.type === 'text' && !editContent.trim()) return;
+    const st = editStyle, content = editContent.trim();
+    const apply = (it: InventoryItem): InventoryItem => {
+      if (it.type === 'text') {
+        return { ...it, content, fontSize: st.fontSize, color: unlessDefault(st.color, TEXT_COLOR) };
+      }
+      if (it.type === 'zone') {
+        return {
+          ...it, label: content, color: unlessDefault(st.color, ZONE_COLOR),
+          strokeWidth: unlessDefault(st.strokeWidth, STROKE_WIDTH), fontSize: unlessDefault(st.fontSize, ZONE_FONT_SIZE),
+        };
+      }
+      if (it.type === 'line' || it.type === 'polyline') {
+        return {
+          ...it, color: unlessDefault(st.color, LINE_COLOR),
+          strokeWidth: unlessDefault(st.strokeWidth, STROKE_WIDTH), arrow: st.arrow || undefined,
+        };
+      }
+      return it;
+    };
+    const cur = items.find(it => it.id === editingItem.id);
+    // JSON drops the undefined (default) fields, so this compares what would be saved
+    if (cur && JSON.stringify(apply(cur)) !== JSON.stringify(cur)) {
+      edit(`Edit ${itemKind(cur)}`, prev => prev.map(it => it.id === cur.id ? apply(it) : it));
     }
     setEditingItem(null);
   };
 
   const handleSaveLocName = () => {
     if (sidePanelLocId === null || !editName.trim()) return;
-    pushHistory();
-    setItems(prev => prev.map(it =>
+    const loc = items.find(it => it.id === sidePanelLocId);
+    if (!loc || loc.type !== 'location' || loc.name === editName.trim()) return;
+    edit(`Rename ${loc.name}`, prev => prev.map(it =>
       it.id === sidePanelLocId && it.type === 'location'
         ? { ...it, name: editName.trim() }
         : it
     ));
   };
 
+  // Align / distribute / arrange
+
+  const selectedLocations = items.filter((it): it is LocationItem => it.type === 'location' && selectedIds.has(it.id));
+
+  const applyPositions = (label: string, pos: Positions) => {
+    const moved = selectedLocations.some(l => {
+      const p = pos.get(l.id);
+      return p && (p.x !== l.x || p.y !== l.y);
+    });
+    if (!moved) return;
+    edit(`${label} ${plural(pos.size, 'item')}`, prev => prev.map(it => {
+      const p = pos.get(it.id);
+      return p && it.type === 'location' ? { ...it, x: p.x, y: p.y } : it;
+    }));
+  };
+
+  const handleAlign = (mode: AlignMode) =>
+    applyPositions(ALIGN_LABELS[mode], alignLocations(selectedLocations, mode, GRID));
+
+  const handleDistribute = (axis: 'h' | 'v') =>
+    applyPositions(axis === 'h' ? 'Distribute horizontally' : 'Distribute vertically', distributeLocations(selectedLocations, axis, GRID));
+
+  const handleArrangeGrid = () =>
+    applyPositions('Arrange as grid', arrangeAsGrid(selectedLocations, arrangeCols, arrangeSpacing, GRID));
+
   // Hit testing
 
-  const hitTest = (wx: number, wy: number): InventoryItem | null => {
+  const textWidth = (t: TextItem) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return t.content.length * t.fontSize * 0.5;
+    ctx.font = `${t.fontSize}px ${FONT}`;
+    return ctx.measureText(t.content).width;
+  };
+
+  /** Topmost item under the point on a visible, unlocked layer, passing over any that `skip` rejects. */
+  const hitTest = (wx: number, wy: number, skip?: (it: InventoryItem) => boolean): InventoryItem | null => {
     const ctx = canvasRef.current?.getContext('2d');
-    for (let i = items.length - 1; i >= 0; i--) {
-      const it = items[i];
+    const shown = drawOrder(items, layers);
+    for (let i = shown.length - 1; i >= 0; i--) {
+      const it = shown[i];
+      if (layerOf(it, layers).locked || skip?.(it)) continue;
+      const tol = LINE_HIT / cam.z;
       if (it.type === 'location') {
-        if (wx >= it.x && wx <= it.x + it.width && wy >= it.y && wy <= it.y + it.height) return it;
-      } else if (it.type === 'text' && ctx) {
-        ctx.font = `14px ${FONT}`;
-        const w = ctx.measureText(it.content).width;
-        if (wx >= it.x && wx <= it.x + w && wy >= it.y && wy <= it.y + it.fontSize) return it;
+        const r = locRect(it);
+        if (wx >= r.x && wx <= r.x + r.w && wy >= r.y && wy <= r.y + r.h) return it;
+      } else if (it.type === 'text') {
+        const r = itemBounds(it, textWidth);
+        if (wx >= r.x && wx <= r.x + r.w && wy >= r.y && wy <= r.y + r.h) return it;
       } else if (it.type === 'line') {
-        if (ptSegDist(wx, wy, it.x1, it.y1, it.x2, it.y2) < LINE_HIT / cam.z) return it;
+        if (ptSegDist(wx, wy, it.x1, it.y1, it.x2, it.y2) < tol) return it;
+      } else if (it.type === 'polyline') {
+        if (it.points.some((p, j) => j > 0 && ptSegDist(wx, wy, it.points[j - 1].x, it.points[j - 1].y, p.x, p.y) < tol)) return it;
+      } else {
+        // Zones are picked by their edge or label, so clicks inside still reach the floor
+        const inside = wx >= it.x - tol && wx <= it.x + it.width + tol && wy >= it.y - tol && wy <= it.y + it.height + tol;
+        const deep = wx > it.x + tol && wx < it.x + it.width - tol && wy > it.y + tol && wy < it.y + it.height - tol;
+        if (inside && !deep) return it;
+        if (it.label && ctx) {
+          const size = it.fontSize ?? ZONE_FONT_SIZE;
+          ctx.font = zoneFont(size);
+          const lx = it.x + ZONE_LABEL_INSET.x, ly = it.y + ZONE_LABEL_INSET.y;
+          if (wx >= lx && wx <= lx + ctx.measureText(it.label).width && wy >= ly && wy <= ly + size) return it;
+        }
       }
     }
     return null;
   };
 
+  // Search
+
+  const searchResults = showSearch ? searchItems(searchQuery, items, locationDataRef.current) : [];
+
+  useEffect(() => () => {
+    cancelAnimationFrame(flyRef.current);
+    clearTimeout(highlightTimer.current);
+  }, []);
+
+  /** Ease the camera so world point (wx, wy) ends up in the middle of the canvas. */
+  const flyTo = (wx: number, wy: number) => {
+    cancelAnimationFrame(flyRef.current);
+    const from = camRef.current;
+    const z = Math.max(from.z, 1);
+    const cw = canvasRef.current?.offsetWidth || 800;
+    const ch = canvasRef.current?.offsetHeight || 600;
+    const to = { x: cw / 2 - wx * z, y: ch / 2 - wy * z, z };
+    const start = performance.now();
+    const step = (now: number) => {
+      const t = Math.min(1, (now - start) / FLY_MS);
+      const k = t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+      setCam({
+        x: from.x + (to.x - from.x) * k,
+        y: from.y + (to.y - from.y) * k,
+        z: from.z + (to.z - from.z) * k,
+      });
+      if (t < 1) flyRef.current = requestAnimationFrame(step);
+    };
+    flyRef.current = requestAnimationFrame(step);
+  };
+
+  /** Fly to an item, select and highlight it, and open the side panel for a location. */
+  const focusItem = (it: InventoryItem) => {
+    if (it.type === 'location') {
+      const b = locRect(it);
+      flyTo(b.x + b.w / 2, b.y + b.h / 2);
+      setSidePanelLocId(it.id);
+      setEditName(it.name);
+    } else if (it.type !== 'line') {
+      const b = itemBounds(it, textWidth);
+      flyTo(b.x + b.w / 2, b.y + b.h / 2);
+    }
+    setSelectedIds(new Set([it.id]));
+    setHighlightId(it.id);
+    clearTimeout(highlightTimer.current);
+    highlightTimer.current = setTimeout(() => setHighlightId(null), HIGHLIGHT_MS);
+  };
+
+  const openSearchResult = (r: SearchResult) => {
+    focusItem(r.item);
+    setShowSearch(false);
+  };
+
+  // Resize handles (single selected location or zone only)
+
+  const resizable = selectedIds.size === 1
+    ? items.find((it): it is LocationItem | ZoneItem =>
+      (it.type === 'location' || it.type === 'zone') && !isLocked(it, layers) && selectedIds.has(it.id))
+    : undefined;
+
+  const cornerAt = (wx: number, wy: number): Corner | null => {
+    if (!resizable) return null;
+    const r = boxRect(resizable);
+    const tol = (HANDLE + 2) / cam.z;
+    return CORNERS.find(c => {
+      const p = cornerPoint(r, c);
+      return Math.abs(wx - p.x) <= tol && Math.abs(wy - p.y) <= tol;
+    }) ?? null;
+  };
+
+  /** Set (or clear, with null) the capacity of the given locations. */
+  const setCapacity = (ids: Set<number>, capacity: number | null) => {
+    const targets = items.filter((it): it is LocationItem => it.type === 'location' && ids.has(it.id));
+    if (targets.every(l => (l.capacity ?? null) === capacity)) return;
+    const label = targets.length === 1 ? `Set capacity of ${targets[0].name}` : `Set capacity of ${plural(targets.length, 'location')}`;
+    edit(label, prev => prev.map(it => {
+      if (it.type !== 'location' || !ids.has(it.id)) return it;
+      const next = { ...it, capacity: capacity ?? undefined };
+      if (capacity === null) delete next.capacity;
+      return next;
+    }));
+  };
+
+  const handleRotate = (loc: LocationItem) => {
+    edit(`Rotate ${loc.name}`, prev => prev.map(it =>
+      it.id === loc.id && it.type === 'location' ? { ...it, rotation: it.rotation === 90 ? 0 : 90 } : it
+    ));
+  };
+
   // Mouse handlers
 
   const handleMouseDown = (e: MouseEvent<HTMLCanvasElement>) => {
-    if (!canvasRef.current) return;
+    // Right button is handled by the context menu
+    if (!canvasRef.current || e.button === 2) return;
 
     // Pan: middle button, space held, or hand tool
     if (e.button === 1 || spaceRef.current || tool === 'hand') {
@@ -498,7 +1126,16 @@ function App() {
     if (activeModal || editingItem) return;
 
     const wp = toWorld(e);
-    const hit = hitTest(wp.x, wp.y);
+
+    const corner = cornerAt(wp.x, wp.y);
+    if (corner && resizable) {
+      resizeRef.current = { id: resizable.id, corner, rect: boxRect(resizable), before: items };
+      setIsResizing(true);
+      return;
+    }
+
+    // Locked labels and lines let a selection box start over them; locked locations can still be opened
+    const hit = hitTest(wp.x, wp.y, it => !!it.locked && it.type !== 'location');
 
     if (hit) {
       // Shift+click: toggle selection
@@ -527,24 +1164,20 @@ function App() {
         setSidePanelLocId(null);
       }
 
-      pushHistory();
-      setIsDragging(true);
-
-      const positions = new Map<number, { x: number; y: number; x1?: number; y1?: number; x2?: number; y2?: number }>();
+      // Locked items stay put; the rest of the selection still moves
+      const positions = new Map<number, InventoryItem>();
       items.forEach(it => {
-        if (!ids.has(it.id)) return;
-        if (it.type === 'line') {
-          positions.set(it.id, { x: it.x1, y: it.y1, x1: it.x1, y1: it.y1, x2: it.x2, y2: it.y2 });
-        } else {
-          positions.set(it.id, { x: it.x, y: it.y });
-        }
+        if (ids.has(it.id) && !isLocked(it, layers)) positions.set(it.id, it);
       });
 
-      const pp = hit.type === 'line' ? { x: hit.x1, y: hit.y1 } : { x: hit.x, y: hit.y };
+      if (positions.size === 0) return;
+      setIsDragging(true);
+
+      const pp = itemAnchor(hit);
       dragRef.current = {
         startX: wp.x, startY: wp.y,
         primaryId: hit.id, primaryX: pp.x, primaryY: pp.y,
-        positions,
+        positions, before: items, moved: false,
       };
     } else {
       // Empty space: start rubber-band selection
@@ -570,20 +1203,34 @@ function App() {
     }
 
     const wp = toWorld(e);
+    hoverRef.current = wp;
+
+    if (isResizing && resizeRef.current) {
+      const { id, corner, rect: r } = resizeRef.current;
+      const nx = snap(wp.x), ny = snap(wp.y);
+      let left = r.x, top = r.y, right = r.x + r.w, bottom = r.y + r.h;
+      if (corner.endsWith('w')) left = Math.min(nx, right - GRID); else right = Math.max(nx, left + GRID);
+      if (corner.startsWith('n')) top = Math.min(ny, bottom - GRID); else bottom = Math.max(ny, top + GRID);
+      const next = { x: left, y: top, w: right - left, h: bottom - top };
+      setItems(prev => prev.map(it => it.id === id && (it.type === 'location' || it.type === 'zone') ? withBoxRect(it, next) : it));
+      return;
+    }
+
+    if (!isDragging && !isSelecting) {
+      const c = cornerAt(wp.x, wp.y);
+      if (c !== hoverCorner) setHoverCorner(c);
+    }
 
     if (isDragging && dragRef.current) {
       const d = dragRef.current;
       const rawDx = wp.x - d.startX, rawDy = wp.y - d.startY;
       const sx = snap(d.primaryX + rawDx), sy = snap(d.primaryY + rawDy);
       const dx = sx - d.primaryX, dy = sy - d.primaryY;
+      if (dx !== 0 || dy !== 0) d.moved = true;
 
       setItems(prev => prev.map(it => {
         const init = d.positions.get(it.id);
-        if (!init) return it;
-        if (it.type === 'line') {
-          return { ...it, x1: init.x1! + dx, y1: init.y1! + dy, x2: init.x2! + dx, y2: init.y2! + dy };
-        }
-        return { ...it, x: init.x + dx, y: init.y + dy };
+        return init ? moveItem(init, dx, dy) : it;
       }));
 
     } else if (isSelecting && selBox) {
@@ -591,20 +1238,21 @@ function App() {
       setSelBox(box);
 
       const n = boxNorm(box.x1, box.y1, box.x2, box.y2);
-      const ctx = canvasRef.current.getContext('2d');
+      const inBox = (p: Point) => p.x >= n.x && p.x <= n.x + n.w && p.y >= n.y && p.y <= n.y + n.h;
       const ids = new Set<number>();
 
-      items.forEach(it => {
+      drawOrder(items, layers).forEach(it => {
+        if (isLocked(it, layers)) return;
         if (it.type === 'line') {
-          const e1 = it.x1 >= n.x && it.x1 <= n.x + n.w && it.y1 >= n.y && it.y1 <= n.y + n.h;
-          const e2 = it.x2 >= n.x && it.x2 <= n.x + n.w && it.y2 >= n.y && it.y2 <= n.y + n.h;
-          if (e1 || e2) ids.add(it.id);
-        } else if (it.type === 'location') {
-          if (rectsHit(it.x, it.y, it.width, it.height, n.x, n.y, n.w, n.h)) ids.add(it.id);
-        } else if (it.type === 'text' && ctx) {
-          ctx.font = `14px ${FONT}`;
-          const w = ctx.measureText(it.content).width;
-          if (rectsHit(it.x, it.y, w, it.fontSize, n.x, n.y, n.w, n.h)) ids.add(it.id);
+          if (inBox({ x: it.x1, y: it.y1 }) || inBox({ x: it.x2, y: it.y2 })) ids.add(it.id);
+        } else if (it.type === 'polyline') {
+          if (it.points.some(inBox)) ids.add(it.id);
+        } else if (it.type === 'zone') {
+          // Only when boxed in completely, so selecting inside a zone doesn't grab it
+          if (inBox({ x: it.x, y: it.y }) && inBox({ x: it.x + it.width, y: it.y + it.height })) ids.add(it.id);
+        } else {
+          const r = itemBounds(it, textWidth);
+          if (rectsHit(r.x, r.y, r.w, r.h, n.x, n.y, n.w, n.h)) ids.add(it.id);
         }
       });
 
@@ -618,13 +1266,63 @@ function App() {
       panRef.current = null;
       return;
     }
+    const d = dragRef.current;
+    if (d?.moved) recordHistory(`Move ${plural(d.positions.size, 'item')}`, d.before, itemsRef.current);
+    const rs = resizeRef.current;
+    if (rs) {
+      const box = itemsRef.current.find(it => it.id === rs.id);
+      if (box?.type === 'location' || box?.type === 'zone') {
+        const r = boxRect(box);
+        if (r.x !== rs.rect.x || r.y !== rs.rect.y || r.w !== rs.rect.w || r.h !== rs.rect.h) {
+          recordHistory(`Resize ${box.type === 'location' ? box.name : box.label || 'zone'}`, rs.before, itemsRef.current);
+        }
+      }
+      resizeRef.current = null;
+      setIsResizing(false);
+    }
     setIsDragging(false);
     setIsSelecting(false);
     setSelBox(null);
     dragRef.current = null;
   };
 
+  const addZone = (a: Point, b: Point) => {
+    const x = Math.min(a.x, b.x), y = Math.min(a.y, b.y);
+    const zone: ZoneItem = {
+      id: newId(), type: 'zone', label: '', x, y,
+      width: Math.max(GRID, Math.abs(b.x - a.x)), height: Math.max(GRID, Math.abs(b.y - a.y)),
+      layer: activeLayerId,
+    };
+    edit('Add zone', prev => insertByKind(prev, [zone]));
+    // Straight into naming it
+    openEditor(zone);
+  };
+
+  const finishPolyline = () => {
+    const pts = drawPoints.filter((p, i) => i === 0 || p.x !== drawPoints[i - 1].x || p.y !== drawPoints[i - 1].y);
+    const arrow = activeModal === 'arrow';
+    if (pts.length >= 2) {
+      edit(`Add ${arrow ? 'arrow' : 'polyline'}`, prev => insertByKind(prev, [{
+        id: newId(), type: 'polyline' as const, points: pts, layer: activeLayerId, ...(arrow ? { arrow } : {}),
+      }]));
+    }
+    setDrawPoints([]);
+    setActiveModal(null);
+  };
+
   const handleClick = (e: MouseEvent<HTMLCanvasElement>) => {
+    if (isPointTool(activeModal)) {
+      const wp = toWorld(e);
+      const p = { x: snap(wp.x), y: snap(wp.y) };
+      if (activeModal === 'zone' && drawPoints.length === 1) {
+        addZone(drawPoints[0], p);
+        setDrawPoints([]);
+        setActiveModal(null);
+      } else {
+        setDrawPoints(prev => [...prev, p]);
+      }
+      return;
+    }
     if (activeModal !== 'line') return;
     const wp = toWorld(e);
     if (!lineStart) {
@@ -636,7 +1334,22 @@ function App() {
     }
   };
 
+  const handleContextMenu = (e: MouseEvent<HTMLCanvasElement>) => {
+    e.preventDefault();
+    if (activeModal || editingItem) return;
+    const wp = toWorld(e);
+    const hit = hitTest(wp.x, wp.y);
+    // Right-clicking outside the selection acts on just that item
+    if (hit && !selectedIds.has(hit.id)) setSelectedIds(new Set([hit.id]));
+    else if (!hit) setSelectedIds(new Set());
+    setContextMenu({ x: e.clientX, y: e.clientY, wx: wp.x, wy: wp.y, onItem: !!hit });
+  };
+
   const handleDblClick = (e: MouseEvent<HTMLCanvasElement>) => {
+    if (activeModal === 'polyline' || activeModal === 'arrow') {
+      finishPolyline();
+      return;
+    }
     if (activeModal || editingItem) return;
     const wp = toWorld(e);
     const hit = hitTest(wp.x, wp.y);
@@ -647,10 +1360,8 @@ function App() {
       setSidePanelLocId(hit.id);
       setEditName(hit.name);
       setSelectedIds(new Set([hit.id]));
-    } else if (hit.type === 'text') {
-      setEditingItem(hit);
-      setEditContent(hit.content);
-      setSelectedIds(new Set([hit.id]));
+    } else {
+      openEditor(hit);
     }
   };
 
@@ -704,74 +1415,57 @@ function App() {
       }
     }
 
-    // Lines (below other items)
-    items.forEach(it => {
-      if (it.type !== 'line') return;
-      const sel = selectedIds.has(it.id);
-      ctx.strokeStyle = sel ? '#007AFF' : '#C7C7CC';
-      ctx.lineWidth = (sel ? 2 : 1.5) / cam.z;
-      ctx.lineCap = 'round';
+    const stale = staleIds(locationDataRef.current, staleHours === null ? null : staleHours * 3600000, now);
+    const heat = heatmap ? fillLevels(items, locationDataRef.current) : undefined;
+    const tint = colorByType ? typeTints(items, locationDataRef.current) : undefined;
+    const dimmed = dimmedLocations(items, locationDataRef.current, typeFilter);
+    drawItems(ctx, drawOrder(items, layers), selectedIds, cam.z, { stale, heat, tint, dimmed });
+
+    // Resize handles
+    if (selectedIds.size === 1) {
+      const box = items.find(it => selectedIds.has(it.id));
+      if ((box?.type === 'location' || box?.type === 'zone') && !isLocked(box, layers)) {
+        const r = boxRect(box);
+        const hs = HANDLE / cam.z;
+        ctx.fillStyle = '#FFFFFF';
+        ctx.strokeStyle = '#007AFF';
+        ctx.lineWidth = 1.5 / cam.z;
+        CORNERS.forEach(c => {
+          const p = cornerPoint(r, c);
+          ctx.fillRect(p.x - hs / 2, p.y - hs / 2, hs, hs);
+          ctx.strokeRect(p.x - hs / 2, p.y - hs / 2, hs, hs);
+        });
+      }
+    }
+
+    // Pulse on recently changed locations
+    const t = Date.now();
+    pulses.forEach((start, id) => {
+      const loc = items.find(it => it.id === id);
+      if (loc?.type !== 'location') return;
+      const r = locRect(loc);
+      const phase = ((t - start) % 1000) / 1000;
+      const pad = (4 + 14 * phase) / cam.z;
+      ctx.globalAlpha = 1 - phase;
+      ctx.strokeStyle = STATUS_INFO[loc.status].color;
+      ctx.lineWidth = 2 / cam.z;
       ctx.beginPath();
-      ctx.moveTo(it.x1, it.y1);
-      ctx.lineTo(it.x2, it.y2);
+      ctx.roundRect(r.x - pad, r.y - pad, r.w + pad * 2, r.h + pad * 2, 10 / cam.z + pad);
       ctx.stroke();
+      ctx.globalAlpha = 1;
     });
 
-    // Locations & text
-    items.forEach(it => {
-      if (it.type === 'location') {
-        const sel = selectedIds.has(it.id);
-        const sColor: Record<string, string> = { green: '#34C759', yellow: '#FF9F0A', red: '#FF3B30' };
-
-        ctx.shadowColor = sel ? 'rgba(0, 122, 255, 0.12)' : 'rgba(0, 0, 0, 0.04)';
-        ctx.shadowBlur = 3;
-        ctx.shadowOffsetY = 1;
-        ctx.shadowOffsetX = 0;
-
-        ctx.fillStyle = '#FFFFFF';
-        ctx.beginPath();
-        ctx.roundRect(it.x, it.y, it.width, it.height, 8);
-        ctx.fill();
-
-        ctx.shadowColor = 'transparent';
-        ctx.shadowBlur = 0;
-        ctx.shadowOffsetY = 0;
-
-        ctx.strokeStyle = sel ? '#007AFF' : 'rgba(0, 0, 0, 0.08)';
-        ctx.lineWidth = sel ? 1.5 : 0.5;
-        ctx.beginPath();
-        ctx.roundRect(it.x, it.y, it.width, it.height, 8);
-        ctx.stroke();
-
-        ctx.fillStyle = sColor[it.status];
-        ctx.beginPath();
-        ctx.arc(it.x + 14, it.y + it.height / 2, 3.5, 0, Math.PI * 2);
-        ctx.fill();
-
-        ctx.fillStyle = '#1D1D1F';
-        ctx.font = `500 12px ${FONT}`;
-        ctx.textAlign = 'center';
-        ctx.textBaseline = 'middle';
-        ctx.fillText(it.name, it.x + it.width / 2 + 8, it.y + it.height / 2);
-
-      } else if (it.type === 'text') {
-        const sel = selectedIds.has(it.id);
-        ctx.fillStyle = '#1D1D1F';
-        ctx.font = `14px ${FONT}`;
-        ctx.textAlign = 'left';
-        ctx.textBaseline = 'top';
-        ctx.fillText(it.content, it.x, it.y);
-
-        if (sel) {
-          const m = ctx.measureText(it.content);
-          ctx.strokeStyle = 'rgba(0, 122, 255, 0.4)';
-          ctx.lineWidth = 1 / cam.z;
-          ctx.setLineDash([3 / cam.z, 3 / cam.z]);
-          ctx.strokeRect(it.x - 3, it.y - 3, m.width + 6, it.fontSize + 6);
-          ctx.setLineDash([]);
-        }
-      }
-    });
+    // Search highlight
+    const lit = highlightId !== null ? items.find(it => it.id === highlightId) : undefined;
+    if (lit && lit.type !== 'line') {
+      const r = itemBounds(lit, textWidth);
+      const pad = 6 / cam.z;
+      ctx.strokeStyle = '#FF9500';
+      ctx.lineWidth = 3 / cam.z;
+      ctx.beginPath();
+      ctx.roundRect(r.x - pad, r.y - pad, r.w + pad * 2, r.h + pad * 2, 10 / cam.z);
+      ctx.stroke();
+    }
 
     // Selection box
     if (selBox) {
@@ -783,6 +1477,21 @@ function App() {
       ctx.strokeRect(b.x, b.y, b.w, b.h);
     }
 
+    // Points placed with the zone / polyline / arrow tools
+    if (drawPoints.length > 0 && isPointTool(activeModal)) {
+      ctx.strokeStyle = '#007AFF';
+      ctx.fillStyle = '#007AFF';
+      ctx.lineWidth = 1.5 / cam.z;
+      ctx.beginPath();
+      drawPoints.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+      ctx.stroke();
+      drawPoints.forEach(p => {
+        ctx.beginPath();
+        ctx.arc(p.x, p.y, 3 / cam.z, 0, Math.PI * 2);
+        ctx.fill();
+      });
+    }
+
     // Line start indicator
     if (lineStart && activeModal === 'line') {
       ctx.fillStyle = 'rgba(0, 122, 255, 0.15)';
@@ -795,34 +1504,141 @@ function App() {
     }
 
     ctx.restore();
-  }, [items, selectedIds, selBox, lineStart, activeModal, cam, renderKey]);
+  }, [items, selectedIds, selBox, lineStart, activeModal, cam, renderKey, highlightId, staleHours, now, cacheLoaded, heatmap, colorByType, typeFilter, pulses, layers, drawPoints]);
+
+  // Clipboard
+
+  // Paste at the cursor when it is over the canvas, otherwise one grid cell down-right
+  const pasteItems = useCallback((src: InventoryItem[], at: { x: number; y: number } | null) => {
+    if (src.length === 0) return;
+    const o = itemsOrigin(src);
+    const dx = at ? snap(at.x - o.x) : GRID;
+    const dy = at ? snap(at.y - o.y) : GRID;
+    const pasted = copyItems(src, dx, dy, renameRef.current);
+    // Repeated pastes continue from the last copy (further along, next name)
+    clipboardRef.current = pasted;
+    edit(`Paste ${plural(pasted.length, 'item')}`, prev => insertByKind(prev, pasted));
+    setSelectedIds(new Set(pasted.map(it => it.id)));
+  }, [edit]);
+
+  const duplicateSelected = useCallback(() => {
+    const ids = selectedRef.current;
+    const src = itemsRef.current.filter(it => ids.has(it.id));
+    if (src.length === 0) return;
+    const copies = copyItems(src, GRID, GRID, renameRef.current);
+    edit(`Duplicate ${plural(copies.length, 'item')}`, prev => insertByKind(prev, copies));
+    setSelectedIds(new Set(copies.map(it => it.id)));
+  }, [edit]);
+
+  const deleteSelected = useCallback(() => {
+    const ids = selectedRef.current;
+    if (ids.size === 0) return;
+    edit(`Delete ${plural(ids.size, 'item')}`, prev => prev.filter(it => !ids.has(it.id)));
+    setSelectedIds(new Set());
+    setEditingItem(null);
+  }, [edit]);
+
+  /** Move the selection to the top or bottom of the drawing order. */
+  const reorderSelected = (toFront: boolean) => {
+    const ids = selectedIds;
+    const label = `${toFront ? 'Bring' : 'Send'} ${plural(ids.size, 'item')} to ${toFront ? 'front' : 'back'}`;
+    edit(label, prev => {
+      const sel = prev.filter(it => ids.has(it.id));
+      const rest = prev.filter(it => !ids.has(it.id));
+      return toFront ? [...rest, ...sel] : [...sel, ...rest];
+    });
+  };
 
-  // Keyboard
+  const setLocked = (ids: Set<number>, locked: boolean) => {
+    edit(`${locked ? 'Lock' : 'Unlock'} ${plural(ids.size, 'item')}`, prev => prev.map(it => {
+      if (!ids.has(it.id)) return it;
+      const next: InventoryItem = { ...it, locked };
+      if (!locked) delete next.locked;
+      return next;
+    }));
+  };
 
   useEffect(() => {
-    const onDown = (e: KeyboardEvent) => {
-      // Space goes to hand mode
-      if (e.code === 'Space' && !(e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement)) {
-        e.preventDefault();
-        spaceRef.current = true;
-        setSpaceHeld(true);
-        return;
-      }
+    const isField = (t: EventTarget | null) => t instanceof HTMLInputElement || t instanceof HTMLTextAreaElement;
+
+    const onCopy = (e: ClipboardEvent) => {
+      if (isField(e.target)) return;
+      const ids = selectedRef.current;
+      const sel = itemsRef.current.filter(it => ids.has(it.id));
+      if (sel.length === 0) return;
+      e.preventDefault();
+      clipboardRef.current = sel;
+      copiedTextRef.current = serializeClipboard(sel);
+      e.clipboardData?.setData('text/plain', copiedTextRef.current);
+      if (e.type === 'cut') {
+        edit(`Cut ${plural(sel.length, 'item')}`, prev => prev.filter(it => !ids.has(it.id)));
+        setSelectedIds(new Set());
+      }
+    };
+
+    const onPaste = (e: ClipboardEvent) => {
+      if (isField(e.target)) return;
+      const text = e.clipboardData?.getData('text/plain') ?? '';
+      // Our own copy: use the internal clipboard so repeated pastes keep stepping
+      const src = text && text !== copiedTextRef.current ? parseClipboard(text) : clipboardRef.current;
+      if (!src || src.length === 0) return;
+      e.preventDefault();
+      if (text !== copiedTextRef.current) clipboardRef.current = src;
+      pasteItems(src, hoverRef.current);
+    };
+
+    window.addEventListener('copy', onCopy);
+    window.addEventListener('cut', onCopy);
+    window.addEventListener('paste', onPaste);
+    return () => {
+      window.removeEventListener('copy', onCopy);
+      window.removeEventListener('cut', onCopy);
+      window.removeEventListener('paste', onPaste);
+    };
+  }, [edit, pasteItems]);
+
+  // Keyboard
+
+  useEffect(() => {
+    const onDown = (e: KeyboardEvent) => {
+      // Space goes to hand mode
+      if (e.code === 'Space' && !(e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement)) {
+        e.preventDefault();
+        spaceRef.current = true;
+        setSpaceHeld(true);
+        return;
+      }
+
+      // Ctrl/Cmd+Shift+Z or Ctrl/Cmd+Y — redo
+      if ((e.ctrlKey || e.metaKey) && ((e.key.toLowerCase() === 'z' && e.shiftKey) || e.key === 'y')) {
+        e.preventDefault();
+        handleRedo();
+        return;
+      }
 
       // Ctrl/Cmd+Z — undo
       if (e.key === 'z' && (e.ctrlKey || e.metaKey)) {
         e.preventDefault();
-        const stack = historyRef.current;
-        if (stack.length === 0) return;
-        setItems(stack.pop()!);
-        setSelectedIds(new Set());
+        handleUndo();
+        return;
+      }
+
+      // Ctrl/Cmd+F — find
+      if (e.key === 'f' && (e.ctrlKey || e.metaKey)) {
+        e.preventDefault();
+        setShowSearch(true);
+        setSearchIndex(0);
         return;
       }
 
       // Escape
       if (e.key === 'Escape') {
+        setContextMenu(null);
+        setShowSearch(false);
+        setSummaryRunId(null);
         setActiveModal(null);
         setLineStart(null);
+        setDrawPoints([]);
         setSelectedIds(new Set());
         setEditingItem(null);
         return;
@@ -833,20 +1649,20 @@ function App() {
       // Delete / Backspace
       if ((e.key === 'Delete' || e.key === 'Backspace') && selectedRef.current.size > 0) {
         e.preventDefault();
-        historyRef.current = [
-          ...historyRef.current.slice(-(MAX_UNDO - 1)),
-          JSON.parse(JSON.stringify(itemsRef.current)),
-        ];
-        const ids = selectedRef.current;
-        setItems(prev => prev.filter(it => !ids.has(it.id)));
-        setSelectedIds(new Set());
-        setEditingItem(null);
+        deleteSelected();
+      }
+
+      // Ctrl/Cmd+D — duplicate
+      if (e.key === 'd' && (e.ctrlKey || e.metaKey)) {
+        e.preventDefault();
+        duplicateSelected();
+        return;
       }
 
       // Ctrl/Cmd+A Select all
       if (e.key === 'a' && (e.ctrlKey || e.metaKey)) {
         e.preventDefault();
-        setSelectedIds(new Set(itemsRef.current.map(it => it.id)));
+        setSelectedIds(selectableIds(itemsRef.current, layersRef.current));
       }
     };
 
@@ -863,84 +1679,547 @@ function App() {
       window.removeEventListener('keydown', onDown);
       window.removeEventListener('keyup', onUp);
     };
-  }, []);
+  }, [handleUndo, handleRedo, duplicateSelected, deleteSelected]);
+
+  // Layouts
+
+  const openLayout = (id: number) => {
+    const data = loadLayoutData(id);
+    setActiveLayoutId(id);
+    setItems(data.items);
+    setLayers(data.layers);
+    setActiveLayerId(BASE_LAYER_ID);
+    setCam(data.cam);
+    setSelectedSite(data.site);
+    setLastSync(data.lastSync);
+    setSelectedIds(new Set());
+    setSidePanelLocId(null);
+    setEditingItem(null);
+    resetHistory();
+  };
+
+  const handleSwitchLayout = (id: number) => {
+    if (id === activeLayoutId) return;
+    flushLayout();
+    openLayout(id);
+  };
 
-  // Undo button handler
+  const handleCreateLayout = () => {
+    const name = newLayoutName.trim();
+    if (!name) return;
+    flushLayout();
+    const id = newId();
+    saveLayoutData(id, { items: [], layers: [baseLayer()], cam: DEFAULT_CAM, site: selectedSite, lastSync: null });
+    setLayouts(prev => [...prev, { id, name }]);
+    setNewLayoutName('');
+    audit(`Create layout ${name}`);
+    openLayout(id);
+  };
+
+  const handleRenameLayout = (id: number) => {
+    const name = layoutNameDraft.trim();
+    if (!name) return;
+    const old = layouts.find(l => l.id === id)?.name;
+    if (old !== name) audit(`Rename layout ${old} to ${name}`);
+    setLayouts(prev => prev.map(l => l.id === id ? { ...l, name } : l));
+    setRenamingLayoutId(null);
+  };
+
+  const handleDuplicateLayout = (id: number) => {
+    const src = layouts.find(l => l.id === id);
+    if (!src) return;
+    flushLayout();
+    const data = loadLayoutData(id);
+    const copyId = newId();
+    saveLayoutData(copyId, { ...data, items: cloneItems(data.items) });
+    setLayouts(prev => {
+      const i = prev.findIndex(l => l.id === id);
+      return [...prev.slice(0, i + 1), { id: copyId, name: `${src.name} copy` }, ...prev.slice(i + 1)];
+    });
+    audit(`Duplicate layout ${src.name}`);
+    openLayout(copyId);
+  };
 
-  const handleUndo = () => {
-    const stack = historyRef.current;
-    if (stack.length === 0) return;
-    setItems(stack.pop()!);
+  const handleDeleteLayout = (id: number) => {
+    const target = layouts.find(l => l.id === id);
+    if (!target || layouts.length <= 1) return;
+    if (!window.confirm(`Delete layout "${target.name}"? This cannot be undone.`)) return;
+    audit(`Delete layout ${target.name}`);
+    // The open layout's last edits may not be saved yet
+    const source = id === activeLayoutId ? itemsRef.current : loadLayoutData(id).items;
+    const gone = source.filter(it => it.type === 'location').map(it => it.id);
+    gone.forEach(locId => locationDataRef.current.delete(locId));
+    deleteSyncResults(gone);
+    deleteSyncRuns(id);
+    removeLayoutData(id);
+    const rest = layouts.filter(l => l.id !== id);
+    setLayouts(rest);
+    if (id === activeLayoutId) openLayout(rest[0].id);
+  };
+
+  const activeLayout = layouts.find(l => l.id === activeLayoutId);
+
+  // Layers (showing, hiding and locking is view state, so not undoable)
+
+  const updateLayer = (id: number, patch: Partial<Layer>) => {
+    setLayers(prev => prev.map(l => l.id === id ? { ...l, ...patch } : l));
+    // Items you can't see or touch shouldn't stay selected
+    if (patch.visible === false || patch.locked === true) {
+      setSelectedIds(prev => new Set([...prev].filter(sid => {
+        const it = items.find(i => i.id === sid);
+        return !it || layerOf(it, layers).id !== id;
+      })));
+    }
+  };
+
+  const handleAddLayer = () => {
+    const layer: Layer = { id: newId(), name: `Layer ${layers.length + 1}`, visible: true, locked: false };
+    setLayers(prev => [...prev, layer]);
+    audit(`Add layer ${layer.name}`);
+    setActiveLayerId(layer.id);
+    setRenamingLayerId(layer.id);
+    setLayerNameDraft(layer.name);
+  };
+
+  const handleRenameLayer = (id: number) => {
+    const name = layerNameDraft.trim();
+    const old = layers.find(l => l.id === id)?.name;
+    if (name && name !== old) {
+      audit(`Rename layer ${old} to ${name}`);
+      updateLayer(id, { name });
+    }
+    setRenamingLayerId(null);
+  };
+
+  /** Move a layer one step towards the top (1) or bottom (-1) of the stack. */
+  const moveLayer = (id: number, dir: 1 | -1) => {
+    setLayers(prev => {
+      const i = prev.findIndex(l => l.id === id), j = i + dir;
+      if (i < 0 || j < 0 || j >= prev.length) return prev;
+      const next = [...prev];
+      [next[i], next[j]] = [next[j], next[i]];
+      return next;
+    });
+  };
+
+  const handleDeleteLayer = (id: number) => {
+    const layer = layers.find(l => l.id === id);
+    if (!layer || id === BASE_LAYER_ID) return;
+    const count = items.filter(it => it.layer === id).length;
+    if (count > 0) {
+      if (!window.confirm(`Delete layer "${layer.name}"? Its ${plural(count, 'item')} move to the base layer.`)) return;
+      edit(`Delete layer ${layer.name}`, prev => prev.map(it => it.layer === id ? { ...it, layer: BASE_LAYER_ID } : it));
+    }
+    audit(`Delete layer ${layer.name}`);
+    setLayers(prev => prev.filter(l => l.id !== id));
+    if (activeLayerId === id) setActiveLayerId(BASE_LAYER_ID);
+  };
+
+  const moveSelectionToLayer = (layer: Layer) => {
+    const ids = selectedIds;
+    edit(`Move ${plural(ids.size, 'item')} to ${layer.name}`, prev => prev.map(it => ids.has(it.id) ? { ...it, layer: layer.id } : it));
+    if (!layer.visible || layer.locked) setSelectedIds(new Set());
+  };
+
+  // Export / import
+
+  const handleExportLayout = () => {
+    downloadLayoutFile(toLayoutFile(activeLayout?.name ?? '', items, layers, cam, selectedSite));
+  };
+
+  const handleImportFile = async (file: File) => {
+    setImportError(null);
+    setPendingImport(null);
+    try {
+      setPendingImport(parseLayoutFile(await file.text()));
+    } catch (err) {
+      setImportError(err instanceof LayoutFileError ? err.message : `Could not read file: ${String(err)}`);
+    }
+  };
+
+  const handleApplyImport = (mode: 'replace' | 'merge') => {
+    if (!pendingImport) return;
+    if (mode === 'replace') {
+      if (!window.confirm('Replace everything in this layout with the file? This cannot be undone.')) return;
+      // Fresh ids, so this layout's sync data stays apart from the exported one's
+      const replaced = cloneItems(fileItems(pendingImport));
+      edit('Replace layout from file', () => replaced);
+      // Undo only restores items, not the layers they sit on, so start history afresh
+      resetHistory();
+      setLayers(migrateLayers(pendingImport.layers));
+      setActiveLayerId(BASE_LAYER_ID);
+      setCam(pendingImport.cam);
+      if (pendingImport.site) setSelectedSite(pendingImport.site);
+    } else {
+      // Reuse matching layers and bring over the rest, moving the items along
+      const { added: newLayers, ids } = mergeLayers(layers, migrateLayers(pendingImport.layers), newId);
+      const added = cloneItems(fileItems(pendingImport)).map(it => {
+        const layer = ids.get(it.layer ?? BASE_LAYER_ID) ?? BASE_LAYER_ID;
+        return layer === (it.layer ?? BASE_LAYER_ID) ? it : { ...it, layer };
+      });
+      if (newLayers.length > 0) setLayers(prev => [...prev, ...newLayers]);
+      edit(`Merge ${plural(added.length, 'item')} from file`, prev => insertByKind(prev, added));
+    }
     setSelectedIds(new Set());
+    setSidePanelLocId(null);
+    setPendingImport(null);
+  };
+
+  // Image export
+
+  const openExport = () => {
+    setExportTitle(activeLayout?.name ?? '');
+    setExportScope(selectedIds.size > 0 ? 'selection' : 'all');
+    setExportError(null);
+    setShowExport(true);
+  };
+
+  const exportItems = () =>
+    drawOrder(items, layers).filter(it => exportScope === 'all' || selectedIds.has(it.id));
+
+  const exportOptions = (): MapExportOptions => ({
+    title: exportTitle.trim() || activeLayout?.name || 'Layout',
+    siteName: selectedSite?.yardName ?? '',
+    lastSync,
+    scale: exportScale,
+  });
+
+  const handleExportImage = async (format: 'png' | 'svg' | 'print') => {
+    const opts = exportOptions();
+    const file = safeFileName(opts.title, 'layout');
+    setExportError(null);
+    try {
+      if (format === 'png') {
+        downloadBlob(await renderMapPng(exportItems(), opts), `${file}.png`);
+      } else if (format === 'svg') {
+        const svg = renderMapSvg(exportItems(), opts);
+        downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), `${file}.svg`);
+      } else {
+        printSvg(renderMapSvg(exportItems(), opts), opts.title);
+      }
+    } catch (error) {
+      setExportError(error instanceof Error ? error.message : String(error));
+    }
   };
 
   // Sync locations against server
 
-  const BATCH_SIZE = 10;
+  const showToast = useCallback((title: string, body: string) => {
+    const id = newId();
+    setToasts(prev => [...prev, { id, title, body }]);
+    setTimeout(() => setToasts(prev => prev.filter(t => t.id !== id)), TOAST_MS);
+  }, []);
 
-  const handleSync = useCallback(async () => {
-    if (!serverUrl.trim() || !selectedSite || !username.trim() || !password.trim()) {
-      setShowSettings(true);
+  const handleSync = useCallback(async (scope: SyncScope = 'all', auto = false, promptedPassword?: string) => {
+    const pass = (promptedPassword ?? password).trim();
+    if (!serverUrl.trim() || !selectedSite || !username.trim()) {
+      if (!auto) setShowSettings(true);
+      return;
+    }
+    if (!pass) {
+      if (auto) return;
+      if (passwordMode === 'prompt') {
+        setPromptPassword('');
+        setPasswordPrompt(scope);
+      } else {
+        setShowSettings(true);
+      }
       return;
     }
 
-    const locations = items.filter((it): it is LocationItem => it.type === 'location');
+    const staleMs = staleHours === null ? null : staleHours * 3600000;
+    const view = visibleRect();
+    const all = items.filter((it): it is LocationItem => {
+      if (it.type !== 'location') return false;
+      if (scope === 'selection') return selectedRef.current.has(it.id);
+      if (scope === 'visible') {
+        const r = locRect(it);
+        return rectsHit(r.x, r.y, r.w, r.h, view.x, view.y, view.w, view.h);
+      }
+      if (scope === 'stale') {
+        // Never-checked locations have no data at all, so they count as stale too
+        const c = locationDataRef.current.get(it.id);
+        return !c?.fetchedAt || (staleMs !== null && Date.now() - c.fetchedAt > staleMs);
+      }
+      return true;
+    });
+
+    // Pick up an interrupted run of this layout where it stopped (plain Sync only)
+    const resume = scope === 'all' ? syncResume : null;
+    const resumeRun = resume?.layoutId === activeLayoutId ? syncRuns.find(r => r.id === resume.runId) : undefined;
+    const left = resume && resumeRun ? all.filter(l => resume.pending.includes(l.id)) : [];
+    const run: SyncRun = resumeRun && left.length > 0
+      ? { ...resumeRun, finishedAt: null, entries: [...resumeRun.entries], changes: [...resumeRun.changes] }
+      : { id: newId(), layoutId: activeLayoutId, scope, startedAt: Date.now(), finishedAt: null, entries: [], changes: [] };
+    const locations = left.length > 0 ? left : all;
     if (locations.length === 0) return;
 
+    const ctrl = new AbortController();
+    syncAbortRef.current = ctrl;
     setIsSyncing(true);
-    setSyncProgress(0);
-    setSyncTotal(locations.length);
-    pushHistory();
-
-    try {
-      const allResults: LocationCheckResult[] = new Array(locations.length);
-
-      for (let i = 0; i < locations.length; i += BATCH_SIZE) {
-        const batch = locations.slice(i, i + BATCH_SIZE);
-        const batchResults = await Promise.all(
-          batch.map(loc => checkLocation(serverUrl.trim(), loc.name, selectedSite.siteId, username.trim(), password.trim()))
-        );
+    setSyncProgress(run.entries.length);
+    setSyncTotal(run.entries.length + locations.length);
+
+    const pending = new Set(locations.map(l => l.id));
+    const flips: Array<{ name: string; flip: 'filled' | 'emptied' }> = [];
+    let changed: number[] = [];
+    saveSyncResume({ layoutId: activeLayoutId, runId: run.id, pending: [...pending] });
+
+    // Apply results in small batches so a big yard doesn't redraw once per request
+    let queued: CachedLocation[] = [];
+    let flushTimer: ReturnType<typeof setTimeout> | undefined;
+    const flush = () => {
+      clearTimeout(flushTimer);
+      flushTimer = undefined;
+      if (queued.length === 0) return;
+      const batch = new Map(queued.map(e => [e.id, e]));
+      saveSyncResults(queued);
+      queued = [];
+      setItems(prev => prev.map(it => {
+        const e = it.type === 'location' ? batch.get(it.id) : undefined;
+        const status = e && cachedStatus(e);
+        if (!e || !status || it.type !== 'location') return it;
+        return { ...it, status: resolveStatus(status, e.items.length, it.capacity ?? fullAt) };
+      }));
+      setSyncProgress(run.entries.length);
+      if (changed.length > 0) {
+        const start = Date.now(), ids = changed;
+        setPulses(prev => new Map([...prev, ...ids.map(id => [id, start] as const)]));
+        changed = [];
+      }
+      saveSyncRun(run);
+      saveSyncResume({ layoutId: run.layoutId, runId: run.id, pending: [...pending] });
+    };
 
-        // Store results
-        batchResults.forEach((res, j) => {
-          const idx = i + j;
-          allResults[idx] = res;
-          locationDataRef.current.set(locations[idx].id, res.items);
-        });
+    const onResult = (loc: LocationItem, res: LocationCheckResult) => {
+      const runEntry: RunEntry = { id: loc.id, name: loc.name, status: res.status, items: res.items };
+      // Failures keep the last good snapshot, so compare against that
+      const prev = locationDataRef.current.get(loc.id);
+      const change = locationChange(prev, runEntry);
+      const flip = occupancyFlip(prev?.status, res.status);
+      run.entries.push(runEntry);
+      if (change) run.changes.push(change);
+      if (flip) flips.push({ name: loc.name, flip });
+      if (change || flip) changed.push(loc.id);
+      const entry = cacheResult(prev, loc.id, res, Date.now());
+      locationDataRef.current.set(loc.id, entry);
+      pending.delete(loc.id);
+      queued.push(entry);
+      flushTimer ??= setTimeout(flush, 250);
+    };
 
-        // Update progress & apply statuses incrementally
-        const checked = Math.min(i + BATCH_SIZE, locations.length);
-        setSyncProgress(checked);
-
-        const checkedIds = new Set(locations.slice(0, checked).map(l => l.id));
-        setItems(prev => prev.map(it => {
-          if (it.type !== 'location' || !checkedIds.has(it.id)) return it;
-          const idx = locations.findIndex(l => l.id === it.id);
-          if (idx === -1 || !allResults[idx]) return it;
-          return { ...it, status: allResults[idx].status };
-        }));
-      }
+    const client = new PinProClient({
+      baseUrl: serverUrl,
+      siteId: selectedSite.siteId,
+      credentials: { username: username.trim(), password: pass },
+      locale,
+    });
+    try {
+      await runQueue(
+        locations,
+        (loc, signal) => withRetry(
+          s => client.getLocationParts(loc.name, s).then(toCheckResult),
+          r => r.status === 'network-error',
+          syncSettings,
+          signal,
+        ),
+        onResult,
+        syncSettings.concurrency,
+        ctrl.signal,
+      );
     } finally {
+      flush();
+      const cancelled = ctrl.signal.aborted;
+      const checked = locations.length - pending.size;
+      // Auto-syncs that found nothing would crowd edits out of the log
+      if (!auto || run.changes.length > 0) audit(`${auto ? 'Auto-sync' : SYNC_SCOPE_LABELS[scope]}: checked ${checked} of ${plural(locations.length, 'location')}, ${plural(run.changes.length, 'change')}${cancelled ? ' (cancelled)' : ''}`);
+      if (!cancelled) {
+        run.finishedAt = Date.now();
+        if ((run.scope ?? 'all') === 'all') setLastSync(run.finishedAt);
+      }
+      if (run.entries.length > 0) {
+        saveSyncRun(run, syncRuns);
+        setSyncRuns(prev => [...prev.filter(r => r.id !== run.id), run].slice(-MAX_SYNC_RUNS));
+        if (!auto) setSummaryRunId(run.id);
+      }
+      if (auto && flips.length > 0) {
+        const filled = flips.filter(f => f.flip === 'filled').length;
+        const title = `${plural(flips.length, 'location')} changed`;
+        const body = flips.length <= 3
+          ? flips.map(f => `${f.name} is now ${f.flip === 'filled' ? 'occupied' : 'empty'}`).join('\n')
+          : `${filled} now occupied, ${flips.length - filled} now empty`;
+        notifyOs(title, body).then(shown => { if (!shown) showToast(title, body); });
+      }
+      // A cancelled run is finished on purpose; only a closed app leaves one to resume
+      saveSyncResume(null);
+      setSyncResume(null);
+      syncAbortRef.current = null;
+      setNow(Date.now());
       setIsSyncing(false);
       setSyncProgress(0);
       setSyncTotal(0);
     }
-  }, [serverUrl, selectedSite, username, password, items]);
+  }, [serverUrl, selectedSite, username, password, passwordMode, locale, items, activeLayoutId, syncRuns, syncResume, fullAt, syncSettings, staleHours, visibleRect, showToast, audit]);
+
+  const submitPasswordPrompt = () => {
+    const scope = passwordPrompt;
+    if (scope === null || !promptPassword.trim()) return;
+    // Kept in memory so later syncs this session don't ask again
+    setPassword(promptPassword);
+    setPasswordPrompt(null);
+    setPromptPassword('');
+    handleSync(scope, false, promptPassword);
+  };
+
+  const forgetCredentials = () => {
+    if (!window.confirm('Forget the saved username and password on this computer?')) return;
+    setUsername('');
+    setPassword('');
+    forgetPassword(profileAccount(activeProfileId));
+    showToast('Credentials forgotten', 'The username and password were removed from this computer.');
+  };
+
+  // Users
+
+  const applyProfile = (p: Profile) => {
+    setActiveProfileId(p.id);
+    setUsername(p.prefs.username);
+    setPasswordMode(p.prefs.passwordMode);
+    setRenameRule(p.prefs.renameRule);
+    setStaleHours(p.prefs.staleHours);
+    setFullAt(p.prefs.fullAt);
+    setAutoSync(p.prefs.autoSync);
+    setPasswordPrompt(null);
+    passwordLoadedRef.current = false;
+    setPassword('');
+    loadPassword(profileAccount(p.id), p.prefs.passwordMode).then(pw => {
+      if (profileIdRef.current !== p.id) return;
+      passwordLoadedRef.current = true;
+      setPassword(pw);
+    });
+  };
+
+  // Keep the outgoing user's settings, including a password typed moments ago
+  const leaveProfile = () => {
+    if (passwordLoadedRef.current && passwordMode === 'store') storePassword(profileAccount(activeProfileId), password);
+    const prefs: ProfilePrefs = { username, passwordMode, renameRule, staleHours, fullAt, autoSync };
+    setProfiles(prev => prev.map(p => p.id === activeProfileId ? { ...p, prefs } : p));
+  };
+
+  const handleSwitchProfile = (id: number) => {
+    const target = profiles.find(p => p.id === id);
+    setShowProfiles(false);
+    if (!target || id === activeProfileId || isSyncing) return;
+    audit(`Switch user to ${target.name}`);
+    leaveProfile();
+    applyProfile(target);
+  };
+
+  const handleAddProfile = () => {
+    const name = newProfileName.trim();
+    if (!name || isSyncing) return;
+    const profile: Profile = { id: newId(), name, prefs: DEFAULT_PREFS };
+    audit(`Add user ${name}`);
+    leaveProfile();
+    setProfiles(prev => [...prev, profile]);
+    setNewProfileName('');
+    setShowProfiles(false);
+    applyProfile(profile);
+    setShowSettings(true);
+  };
+
+  const renameProfile = (name: string) => {
+    setProfiles(prev => prev.map(p => p.id === activeProfileId ? { ...p, name } : p));
+  };
+
+  const handleDeleteProfile = () => {
+    const rest = profiles.filter(p => p.id !== activeProfileId);
+    if (rest.length === 0 || isSyncing) return;
+    if (!window.confirm(`Remove user "${activeProfile.name}" and their saved password from this computer?`)) return;
+    audit(`Remove user ${activeProfile.name}`);
+    forgetPassword(profileAccount(activeProfileId));
+    setProfiles(rest);
+    applyProfile(rest[0]);
+  };
+
+  // Audit log panel
+
+  const toggleAudit = () => {
+    setShowAudit(v => !v);
+    if (auditLog === null) loadAuditLog().then(rows => setAuditLog(prev => prev ?? rows));
+  };
+
+  const handleExportAudit = () => {
+    const rows = filterAudit(auditLog ?? [], auditQuery);
+    const stamp = new Date().toISOString().slice(0, 10);
+    downloadBlob(new Blob([auditCsv(rows)], { type: 'text/csv' }), `audit-log-${stamp}.csv`);
+  };
+
+  // Automatic sync
+
+  const handleSyncRef = useRef(handleSync); handleSyncRef.current = handleSync;
+
+  useEffect(() => {
+    if (autoSync === null) return;
+    const t = setInterval(() => {
+      // Skip while a run (manual or automatic) is still going
+      if (syncAbortRef.current) return;
+      handleSyncRef.current('all', true);
+    }, autoSync * 60000);
+    return () => clearInterval(t);
+  }, [autoSync]);
 
   // Input class
 
   const inputCls = 'w-full bg-white border border-gray-200 rounded-xl px-3.5 py-2.5 text-[15px] text-gray-900 placeholder:text-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-400 transition-colors';
 
+  // Interrupted sync of this layout, if any
+  const resumeState = isSyncing ? null : syncResume;
+  const resumable = resumeState?.layoutId === activeLayoutId ? resumeState : null;
+
   // Cursor
 
+  const resizeCorner = isResizing ? resizeRef.current?.corner : hoverCorner;
+
   const cursor = isPanning
     ? 'grabbing'
+    : resizeCorner ? (resizeCorner === 'nw' || resizeCorner === 'se' ? 'nwse-resize' : 'nesw-resize')
     : (spaceHeld || tool === 'hand') ? 'grab'
-    : activeModal === 'line' ? 'crosshair'
+    : activeModal === 'line' || isPointTool(activeModal) ? 'crosshair'
     : isDragging ? 'grabbing'
     : isSelecting ? 'crosshair'
     : 'default';
 
+  // Context menu
+
+  const menuTargets = contextMenu?.onItem ? items.filter(it => selectedIds.has(it.id)) : [];
+  const menuLocations = menuTargets.filter((it): it is LocationItem => it.type === 'location');
+  const menuAllLocked = menuTargets.length > 0 && menuTargets.every(it => it.locked);
+  const menuCount = menuTargets.length > 1 ? ` (${menuTargets.length})` : '';
+
+  const closeMenuAnd = (fn: () => void) => () => {
+    setContextMenu(null);
+    fn();
+  };
+
+  const renameItem = (it: InventoryItem) => {
+    setSelectedIds(new Set([it.id]));
+    if (it.type === 'location') {
+      setSidePanelLocId(it.id);
+      setEditName(it.name);
+      requestAnimationFrame(() => nameInputRef.current?.select());
+    } else {
+      openEditor(it);
+    }
+  };
+
+  const addHere = (modal: 'location' | 'text') => {
+    if (!contextMenu) return;
+    placeAtRef.current = { x: contextMenu.wx, y: contextMenu.wy };
+    setTool('select');
+    setActiveModal(modal);
+  };
+
   // Render
 
   return (
@@ -952,9 +2231,9 @@ function App() {
         onMouseDown={handleMouseDown}
         onMouseMove={handleMouseMove}
         onMouseUp={handleMouseUp}
-        onMouseLeave={handleMouseUp}
+        onMouseLeave={() => { hoverRef.current = null; handleMouseUp(); }}
         onDoubleClick={handleDblClick}
-        onContextMenu={e => e.preventDefault()}
+        onContextMenu={handleContextMenu}
         className="w-full h-full"
         style={{ cursor }}
       />
@@ -1021,7 +2300,7 @@ function App() {
 
           {/* Location */}
           <button
-            onClick={() => { setActiveModal(activeModal === 'location' ? null : 'location'); setTool('select'); }}
+            onClick={() => { placeAtRef.current = null; setActiveModal(activeModal === 'location' ? null : 'location'); setTool('select'); }}
             className={`p-2.5 rounded-xl transition-all duration-150 ${
               activeModal === 'location'
                 ? 'bg-blue-500 text-white shadow-sm'
@@ -1037,7 +2316,7 @@ function App() {
 
           {/* Text */}
           <button
-            onClick={() => { setActiveModal(activeModal === 'text' ? null : 'text'); setTool('select'); }}
+            onClick={() => { placeAtRef.current = null; setActiveModal(activeModal === 'text' ? null : 'text'); setTool('select'); }}
             className={`p-2.5 rounded-xl transition-all duration-150 ${
               activeModal === 'text'
                 ? 'bg-blue-500 text-white shadow-sm'
@@ -1070,41 +2349,229 @@ function App() {
             </svg>
           </button>
 
+          {/* Zones, polylines and arrows */}
+          <div className="relative">
+            <button
+              onClick={() => {
+                if (isPointTool(activeModal)) { setActiveModal(null); setDrawPoints([]); }
+                else setShowShapeMenu(v => !v);
+              }}
+              className={`p-2.5 rounded-xl transition-all duration-150 ${
+                isPointTool(activeModal)
+                  ? 'bg-blue-500 text-white shadow-sm'
+                  : 'hover:bg-black/[0.04] text-gray-500'
+              }`}
+              title={isPointTool(activeModal) ? `Stop drawing ${TOOL_LABELS[activeModal].toLowerCase()}` : 'Draw zone, polyline or arrow'}
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.6} d="M4 5h9v7H4zM14 19l6-6m0 0h-4m4 0v4M4 19l4-3 3 2" />
+              </svg>
+            </button>
+            {showShapeMenu && (
+              <>
+                <div className="fixed inset-0" onClick={() => setShowShapeMenu(false)} />
+                <div className="absolute bottom-full mb-3 left-1/2 -translate-x-1/2 w-[200px] bg-white/95 backdrop-blur-2xl rounded-xl shadow-lg shadow-black/[0.08] border border-white/60 py-1 z-10">
+                  {POINT_TOOLS.map(t => (
+                    <button
+                      key={t}
+                      onClick={() => {
+                        setShowShapeMenu(false);
+                        setActiveModal(t);
+                        setDrawPoints([]);
+                        setLineStart(null);
+                        setTool('select');
+                      }}
+                      className="w-full text-left px-3.5 py-1.5 text-[13px] text-gray-700 hover:bg-gray-50 transition-colors"
+                    >
+                      {TOOL_LABELS[t]}
+                    </button>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+
           <div className="w-px h-5 bg-black/[0.08] mx-1" />
 
           {/* Undo */}
           <button
             onClick={handleUndo}
             className="p-2.5 rounded-xl transition-all duration-150 hover:bg-black/[0.04] text-gray-500 disabled:opacity-30 disabled:pointer-events-none"
-            disabled={historyRef.current.length === 0}
-            title="Undo (Ctrl+Z)"
+            disabled={history.past.length === 0}
+            title={history.past.length ? `Undo ${history.past[history.past.length - 1].label} (Ctrl+Z)` : 'Undo (Ctrl+Z)'}
           >
             <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.6} d="M3 10h10a5 5 0 015 5v2M3 10l4-4M3 10l4 4" />
             </svg>
           </button>
 
-          {/* Sync */}
+          {/* Redo */}
+          <button
+            onClick={handleRedo}
+            className="p-2.5 rounded-xl transition-all duration-150 hover:bg-black/[0.04] text-gray-500 disabled:opacity-30 disabled:pointer-events-none"
+            disabled={history.future.length === 0}
+            title={history.future.length ? `Redo ${history.future[0].label} (Ctrl+Shift+Z)` : 'Redo (Ctrl+Shift+Z)'}
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.6} d="M21 10H11a5 5 0 00-5 5v2m15-7l-4-4m4 4l-4 4" />
+            </svg>
+          </button>
+
+          {/* Heatmap */}
+          <button
+            onClick={() => { setHeatmap(v => !v); setColorByType(false); }}
+            className={`p-2.5 rounded-xl transition-all duration-150 ${
+              heatmap
+                ? 'bg-black/[0.06] text-gray-900'
+                : 'hover:bg-black/[0.04] text-gray-400'
+            }`}
+            title="Fill-level heatmap"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.6} d="M4 4h7v7H4zM13 4h7v7h-7zM4 13h7v7H4zM13 13h7v7h-7z" />
+              <path fill="currentColor" stroke="none" d="M13 13h7v7h-7zM4 4h7v7H4z" opacity={0.35} />
+            </svg>
+          </button>
+
+          {/* Layers */}
+          <button
+            onClick={() => setShowLayers(v => !v)}
+            className={`p-2.5 rounded-xl transition-all duration-150 ${
+              showLayers
+                ? 'bg-black/[0.06] text-gray-900'
+                : 'hover:bg-black/[0.04] text-gray-400'
+            }`}
+            title="Layers"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.6} d="M12 3l9 5-9 5-9-5 9-5zM3 12l9 5 9-5M3 16l9 5 9-5" />
+            </svg>
+          </button>
+
+          {/* Item types */}
+          <button
+            onClick={() => setShowTypes(v => !v)}
+            className={`p-2.5 rounded-xl transition-all duration-150 ${
+              showTypes || typeFilter.size > 0
+                ? 'bg-black/[0.06] text-gray-900'
+                : 'hover:bg-black/[0.04] text-gray-400'
+            }`}
+            title="Filter by item type"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.6} d="M4 5h16l-6 7.5V19l-4 1.5v-8L4 5z" />
+            </svg>
+          </button>
+
+          {/* Search */}
+          <button
+            onClick={() => { setShowSearch(v => !v); setSearchIndex(0); }}
+            className={`p-2.5 rounded-xl transition-all duration-150 ${
+              showSearch
+                ? 'bg-black/[0.06] text-gray-900'
+                : 'hover:bg-black/[0.04] text-gray-400'
+            }`}
+            title="Find (Ctrl+F)"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.6} d="M21 21l-5.2-5.2M17 10.5a6.5 6.5 0 11-13 0 6.5 6.5 0 0113 0z" />
+            </svg>
+          </button>
+
+          {/* History */}
+          <button
+            onClick={() => setShowHistory(v => !v)}
+            className={`p-2.5 rounded-xl transition-all duration-150 ${
+              showHistory
+                ? 'bg-black/[0.06] text-gray-900'
+                : 'hover:bg-black/[0.04] text-gray-400'
+            }`}
+            title="History"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.6} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+          </button>
+
+          {/* Audit log */}
           <button
-            onClick={handleSync}
-            disabled={isSyncing}
-            className={`p-2.5 rounded-xl transition-all duration-150 hover:bg-black/[0.04] text-gray-400 disabled:opacity-40 disabled:pointer-events-none ${isSyncing ? 'animate-spin' : ''}`}
-            title="Sync locations with server"
+            onClick={toggleAudit}
+            className={`p-2.5 rounded-xl transition-all duration-150 ${
+              showAudit
+                ? 'bg-black/[0.06] text-gray-900'
+                : 'hover:bg-black/[0.04] text-gray-400'
+            }`}
+            title="Activity log"
           >
             <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.6} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.6} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 7h6m-6 4h4" />
             </svg>
           </button>
 
+          {/* Sync */}
+          <div className="relative flex items-center">
+            <button
+              onClick={() => handleSync()}
+              disabled={isSyncing}
+              className={`p-2.5 rounded-xl transition-all duration-150 hover:bg-black/[0.04] text-gray-400 disabled:opacity-40 disabled:pointer-events-none ${isSyncing ? 'animate-spin' : ''}`}
+              title={resumable ? `Resume sync (${plural(resumable.pending.length, 'location')} left)` : 'Sync locations with server'}
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.6} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+              </svg>
+            </button>
+            <button
+              onClick={() => setShowSyncMenu(v => !v)}
+              disabled={isSyncing}
+              className="py-2.5 -ml-1.5 pr-1 rounded-lg transition-all duration-150 hover:bg-black/[0.04] text-gray-400 disabled:opacity-40 disabled:pointer-events-none"
+              title="Sync part of the layout"
+            >
+              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M6 15l6-6 6 6" />
+              </svg>
+            </button>
+            {showSyncMenu && (
+              <>
+                <div className="fixed inset-0" onClick={() => setShowSyncMenu(false)} />
+                <div className="absolute bottom-full mb-3 left-1/2 -translate-x-1/2 w-[220px] bg-white/95 backdrop-blur-2xl rounded-xl shadow-lg shadow-black/[0.08] border border-white/60 py-1 z-10">
+                  {(Object.keys(SYNC_SCOPE_LABELS) as SyncScope[]).map(scope => (
+                    <button
+                      key={scope}
+                      onClick={() => { setShowSyncMenu(false); handleSync(scope); }}
+                      disabled={scope === 'selection' && selectedLocations.length === 0}
+                      className="w-full text-left px-3.5 py-1.5 text-[13px] text-gray-700 hover:bg-gray-50 disabled:text-gray-300 disabled:hover:bg-transparent transition-colors"
+                    >
+                      {SYNC_SCOPE_LABELS[scope]}
+                      {scope === 'selection' && selectedLocations.length > 0 && (
+                        <span className="text-gray-400"> ({selectedLocations.length})</span>
+                      )}
+                    </button>
+                  ))}
+                  <p className="px-3.5 pt-1 pb-1.5 text-[11px] text-gray-400 leading-snug">
+                    Stale means not checked yet, or older than the limit in Settings.
+                  </p>
+                </div>
+              </>
+            )}
+          </div>
+
+          {/* Duplicate selected items */}
+          {selectedIds.size > 0 && (
+            <button
+              onClick={duplicateSelected}
+              className="p-2.5 rounded-xl transition-all duration-150 hover:bg-black/[0.04] text-gray-400"
+              title="Duplicate selected (Ctrl+D)"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.6} d="M8 8V5a2 2 0 012-2h9a2 2 0 012 2v9a2 2 0 01-2 2h-3M5 8h9a2 2 0 012 2v9a2 2 0 01-2 2H5a2 2 0 01-2-2v-9a2 2 0 012-2z" />
+              </svg>
+            </button>
+          )}
+
           {/* Delete selected items*/}
           {selectedIds.size > 0 && (
             <button
-              onClick={() => {
-                pushHistory();
-                setItems(prev => prev.filter(it => !selectedIds.has(it.id)));
-                setSelectedIds(new Set());
-                setEditingItem(null);
-              }}
+              onClick={deleteSelected}
               className="p-2.5 rounded-xl transition-all duration-150 hover:bg-red-50 text-gray-400 hover:text-red-500"
               title="Delete selected"
             >
@@ -1116,6 +2583,99 @@ function App() {
 
           <div className="w-px h-5 bg-black/[0.08] mx-1" />
 
+          {/* Layouts */}
+          <button
+            onClick={() => setShowLayouts(true)}
+            className={`px-2.5 py-2.5 rounded-xl transition-all duration-150 flex items-center gap-1.5 ${
+              showLayouts
+                ? 'bg-black/[0.06] text-gray-900'
+                : 'hover:bg-black/[0.04] text-gray-400'
+            }`}
+            title="Layouts"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.6} d="M12 3l9 5-9 5-9-5 9-5z" />
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.6} d="M3 13l9 5 9-5" />
+            </svg>
+            <span className="text-[13px] font-medium max-w-[120px] truncate">{activeLayout?.name}</span>
+          </button>
+
+          {/* Users */}
+          <div className="relative">
+            <button
+              onClick={() => setShowProfiles(v => !v)}
+              className={`px-2 py-2 rounded-xl transition-all duration-150 flex items-center gap-1.5 ${
+                showProfiles
+                  ? 'bg-black/[0.06] text-gray-900'
+                  : 'hover:bg-black/[0.04] text-gray-500'
+              }`}
+              title="Switch user"
+            >
+              <span className="w-6 h-6 rounded-full bg-blue-500 text-white text-[11px] font-semibold flex items-center justify-center uppercase">
+                {activeProfile.name.trim().charAt(0) || '?'}
+              </span>
+              <span className="text-[13px] font-medium max-w-[100px] truncate">{activeProfile.name}</span>
+            </button>
+            {showProfiles && (
+              <>
+                <div className="fixed inset-0" onClick={() => setShowProfiles(false)} />
+                <div className="absolute bottom-full mb-3 left-1/2 -translate-x-1/2 w-[220px] bg-white/95 backdrop-blur-2xl rounded-xl shadow-lg shadow-black/[0.08] border border-white/60 py-1 z-10">
+                  {profiles.map(p => (
+                    <button
+                      key={p.id}
+                      onClick={() => handleSwitchProfile(p.id)}
+                      disabled={isSyncing && p.id !== activeProfileId}
+                      className={`w-full text-left px-3.5 py-1.5 text-[13px] truncate hover:bg-gray-50 disabled:text-gray-300 disabled:hover:bg-transparent transition-colors ${
+                        p.id === activeProfileId ? 'text-blue-600 font-medium' : 'text-gray-700'
+                      }`}
+                    >
+                      {p.name}
+                      {p.prefs.username && p.id !== activeProfileId && (
+                        <span className="text-gray-400 font-normal"> ({p.prefs.username})</span>
+                      )}
+                    </button>
+                  ))}
+                  <div className="flex gap-1.5 px-2 pt-1.5 pb-1 mt-1 border-t border-gray-100">
+                    <input
+                      type="text"
+                      value={newProfileName}
+                      onChange={e => setNewProfileName(e.target.value)}
+                      onKeyDown={e => e.key === 'Enter' && handleAddProfile()}
+                      placeholder="New user"
+                      className={inputCls + ' text-[13px] py-1.5'}
+                    />
+                    <button
+                      onClick={handleAddProfile}
+                      disabled={!newProfileName.trim() || isSyncing}
+                      className="px-2.5 bg-blue-500 text-white rounded-lg hover:bg-blue-600 active:bg-blue-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors text-xs font-medium shrink-0"
+                    >
+                      Add
+                    </button>
+                  </div>
+                  {isSyncing && (
+                    <p className="px-3.5 pb-1.5 text-[11px] text-gray-400 leading-snug">Users can't be switched while a sync is running.</p>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+
+          {/* Print / Export image */}
+          <button
+            onClick={openExport}
+            disabled={items.length === 0}
+            className={`p-2.5 rounded-xl transition-all duration-150 disabled:opacity-30 disabled:pointer-events-none ${
+              showExport
+                ? 'bg-black/[0.06] text-gray-900'
+                : 'hover:bg-black/[0.04] text-gray-400'
+            }`}
+            title="Print / Export image"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.6} d="M17 17h2a2 2 0 002-2v-4a2 2 0 00-2-2H5a2 2 0 00-2 2v4a2 2 0 002 2h2m2 4h6a2 2 0 002-2v-4a2 2 0 00-2-2H9a2 2 0 00-2 2v4a2 2 0 002 2zm8-12V5a2 2 0 00-2-2H9a2 2 0 00-2 2v4h10z" />
+            </svg>
+          </button>
+
           {/* Settings */}
           <button
             onClick={() => setShowSettings(true)}
@@ -1132,7 +2692,444 @@ function App() {
             </svg>
           </button>
         </div>
-      </div>
+      </div>
+
+      {/* Left-hand panels */}
+      <div className="absolute top-6 left-6 flex flex-col gap-3 z-10 max-h-[calc(100vh-140px)]">
+        {/* Layers Panel */}
+        {showLayers && (
+          <div className="w-[280px] max-h-[50vh] flex flex-col bg-white/90 backdrop-blur-2xl rounded-2xl shadow-lg shadow-black/[0.06] border border-white/60 overflow-hidden">
+            <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+              <h2 className="text-[14px] font-semibold text-gray-900">Layers</h2>
+              <button
+                onClick={() => setShowLayers(false)}
+                className="w-6 h-6 flex items-center justify-center rounded-full hover:bg-gray-100 active:bg-gray-200 transition-colors text-gray-400 hover:text-gray-600"
+              >
+                <svg width="12" height="12" viewBox="0 0 14 14" fill="none"><path d="M1 1l12 12M13 1L1 13" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round"/></svg>
+              </button>
+            </div>
+            <div className="overflow-y-auto p-1.5 space-y-0.5">
+              {/* Top of the stack first */}
+              {[...layers].reverse().map((l, i) => {
+                const count = items.filter(it => layerOf(it, layers).id === l.id).length;
+                return (
+                  <div
+                    key={l.id}
+                    className={`flex items-center gap-0.5 px-1.5 py-1 rounded-xl ${l.id === activeLayerId ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                  >
+                    <button
+                      onClick={() => updateLayer(l.id, { visible: !l.visible })}
+                      className={`p-1 rounded-lg hover:bg-black/[0.04] ${l.visible ? 'text-gray-500' : 'text-gray-300'}`}
+                      title={l.visible ? 'Hide' : 'Show'}
+                    >
+                      <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.8} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7zM15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                        {!l.visible && <path strokeLinecap="round" strokeWidth={1.8} d="M4 4l16 16" />}
+                      </svg>
+                    </button>
+                    <button
+                      onClick={() => updateLayer(l.id, { locked: !l.locked })}
+                      className={`p-1 rounded-lg hover:bg-black/[0.04] ${l.locked ? 'text-gray-700' : 'text-gray-300'}`}
+                      title={l.locked ? 'Unlock' : 'Lock'}
+                    >
+                      <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.8} d={l.locked
+                          ? 'M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z'
+                          : 'M8 11V7a4 4 0 118 0m-4 8v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2z'} />
+                      </svg>
+                    </button>
+                    {renamingLayerId === l.id ? (
+                      <input
+                        type="text"
+                        value={layerNameDraft}
+                        onChange={e => setLayerNameDraft(e.target.value)}
+                        onKeyDown={e => {
+                          if (e.key === 'Enter') handleRenameLayer(l.id);
+                          if (e.key === 'Escape') { e.stopPropagation(); setRenamingLayerId(null); }
+                        }}
+                        onBlur={() => handleRenameLayer(l.id)}
+                        className={inputCls + ' text-[13px] py-1 flex-1 min-w-0'}
+                        autoFocus
+                      />
+                    ) : (
+                      <button
+                        onClick={() => setActiveLayerId(l.id)}
+                        onDoubleClick={() => { setRenamingLayerId(l.id); setLayerNameDraft(l.name); }}
+                        className={`flex-1 min-w-0 text-left text-[13px] truncate px-1 py-0.5 ${l.id === activeLayerId ? 'text-blue-600 font-medium' : 'text-gray-700'} ${l.visible ? '' : 'opacity-50'}`}
+                        title="Click to draw on this layer, double-click to rename"
+                      >
+                        {l.name}
+                      </button>
+                    )}
+                    <span className="text-[11px] text-gray-400 tabular-nums px-1">{count}</span>
+                    {selectedIds.size > 0 && (
+                      <button
+                        onClick={() => moveSelectionToLayer(l)}
+                        className="p-1 rounded-lg hover:bg-black/[0.04] text-gray-400 hover:text-gray-600"
+                        title={`Move selection to ${l.name}`}
+                      >
+                        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.8} d="M12 4v12m0 0l-5-5m5 5l5-5M5 20h14" />
+                        </svg>
+                      </button>
+                    )}
+                    <button
+                      onClick={() => moveLayer(l.id, 1)}
+                      disabled={i === 0}
+                      className="p-1 rounded-lg hover:bg-black/[0.04] text-gray-400 hover:text-gray-600 disabled:opacity-30 disabled:pointer-events-none"
+                      title="Move up"
+                    >
+                      <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 15l6-6 6 6" />
+                      </svg>
+                    </button>
+                    <button
+                      onClick={() => moveLayer(l.id, -1)}
+                      disabled={i === layers.length - 1}
+                      className="p-1 rounded-lg hover:bg-black/[0.04] text-gray-400 hover:text-gray-600 disabled:opacity-30 disabled:pointer-events-none"
+                      title="Move down"
+                    >
+                      <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 9l6 6 6-6" />
+                      </svg>
+                    </button>
+                    <button
+                      onClick={() => handleDeleteLayer(l.id)}
+                      disabled={l.id === BASE_LAYER_ID}
+                      className="p-1 rounded-lg hover:bg-red-50 text-gray-400 hover:text-red-500 disabled:opacity-30 disabled:pointer-events-none"
+                      title="Delete layer"
+                    >
+                      <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.8} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                      </svg>
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+            <div className="flex items-center gap-2 px-4 py-2.5 border-t border-gray-100">
+              <button
+                onClick={handleAddLayer}
+                className="text-[12px] text-blue-500 hover:text-blue-600 font-medium transition-colors"
+              >
+                Add layer
+              </button>
+              <span className="ml-auto text-[11px] text-gray-400">New items go on the highlighted layer</span>
+            </div>
+          </div>
+        )}
+
+        {/* History Panel */}
+        {showHistory && (
+          <div className="w-[260px] max-h-[60vh] flex flex-col bg-white/90 backdrop-blur-2xl rounded-2xl shadow-lg shadow-black/[0.06] border border-white/60 overflow-hidden">
+            <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+              <h2 className="text-[14px] font-semibold text-gray-900">History</h2>
+              <button
+                onClick={() => setShowHistory(false)}
+                className="w-6 h-6 flex items-center justify-center rounded-full hover:bg-gray-100 active:bg-gray-200 transition-colors text-gray-400 hover:text-gray-600"
+              >
+                <svg width="12" height="12" viewBox="0 0 14 14" fill="none"><path d="M1 1l12 12M13 1L1 13" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round"/></svg>
+              </button>
+            </div>
+            <div className="overflow-y-auto py-1">
+              {[{ label: 'Start' }, ...history.past, ...history.future].map((entry, i) => {
+                const current = i === history.past.length;
+                const undone = i > history.past.length;
+                return (
+                  <button
+                    key={i}
+                    onClick={() => goToHistory(i)}
+                    className={`w-full text-left px-4 py-1.5 text-[13px] truncate transition-colors ${
+                      current ? 'bg-blue-50 text-blue-600 font-medium'
+                      : undone ? 'text-gray-300 hover:bg-gray-50'
+                      : 'text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    {entry.label}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {/* Audit log Panel */}
+        {showAudit && (() => {
+          const rows = filterAudit(auditLog ?? [], auditQuery);
+          return (
+            <div className="w-[320px] min-h-0 max-h-[60vh] flex flex-col bg-white/90 backdrop-blur-2xl rounded-2xl shadow-lg shadow-black/[0.06] border border-white/60 overflow-hidden">
+              <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+                <h2 className="text-[14px] font-semibold text-gray-900">Activity Log</h2>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={handleExportAudit}
+                    disabled={rows.length === 0}
+                    className="px-2 py-1 rounded-lg text-[12px] font-medium text-blue-500 hover:bg-blue-50 disabled:opacity-40 disabled:pointer-events-none transition-colors"
+                    title="Export the entries shown as CSV"
+                  >
+                    Export
+                  </button>
+                  <button
+                    onClick={() => setShowAudit(false)}
+                    className="w-6 h-6 flex items-center justify-center rounded-full hover:bg-gray-100 active:bg-gray-200 transition-colors text-gray-400 hover:text-gray-600"
+                  >
+                    <svg width="12" height="12" viewBox="0 0 14 14" fill="none"><path d="M1 1l12 12M13 1L1 13" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round"/></svg>
+                  </button>
+                </div>
+              </div>
+              <div className="px-3 pt-2.5 pb-1.5">
+                <input
+                  type="text"
+                  value={auditQuery}
+                  onChange={e => setAuditQuery(e.target.value)}
+                  placeholder="Filter by user, layout or action"
+                  className={inputCls + ' text-[13px] py-1.5'}
+                />
+              </div>
+              <div className="overflow-y-auto py-1">
+                {auditLog === null ? (
+                  <p className="px-4 py-3 text-[13px] text-gray-400">Loading…</p>
+                ) : rows.length === 0 ? (
+                  <p className="px-4 py-3 text-[13px] text-gray-400">{auditQuery.trim() ? 'No matching entries.' : 'Nothing recorded yet.'}</p>
+                ) : (
+                  // Newest first; the full list is in the export
+                  rows.slice(-AUDIT_SHOWN).reverse().map(e => (
+                    <div key={e.id} className="px-4 py-1.5">
+                      <p className="text-[13px] text-gray-700 break-words">{e.action}</p>
+                      <p className="text-[11px] text-gray-400 truncate">{formatStamp(e.at)} · {e.user}{e.layout && ` · ${e.layout}`}</p>
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+          );
+        })()}
+
+        {/* Item types Panel */}
+        {showTypes && (() => {
+          const types = typeSummaries(items, locationDataRef.current);
+          return (
+            <div className="w-[260px] min-h-0 flex flex-col bg-white/90 backdrop-blur-2xl rounded-2xl shadow-lg shadow-black/[0.06] border border-white/60 overflow-hidden">
+              <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+                <h2 className="text-[14px] font-semibold text-gray-900">Item Types</h2>
+                <button
+                  onClick={() => setShowTypes(false)}
+                  className="w-6 h-6 flex items-center justify-center rounded-full hover:bg-gray-100 active:bg-gray-200 transition-colors text-gray-400 hover:text-gray-600"
+                >
+                  <svg width="12" height="12" viewBox="0 0 14 14" fill="none"><path d="M1 1l12 12M13 1L1 13" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round"/></svg>
+                </button>
+              </div>
+              {types.length === 0 ? (
+                <p className="px-4 py-4 text-[13px] text-gray-400">No synced items yet. Run a sync to see which item types are stored where.</p>
+              ) : (
+                <>
+                  <div className="flex items-center gap-2 px-4 py-2 border-b border-gray-100">
+                    <label className="flex items-center gap-1.5 text-[12px] text-gray-600 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={colorByType}
+                        onChange={e => { setColorByType(e.target.checked); if (e.target.checked) setHeatmap(false); }}
+                      />
+                      Colour by main type
+                    </label>
+                    <button
+                      onClick={() => setTypeFilter(new Set())}
+                      disabled={typeFilter.size === 0}
+                      className="ml-auto text-[12px] text-blue-500 hover:text-blue-600 disabled:text-gray-300 transition-colors"
+                    >
+                      Show all
+                    </button>
+                  </div>
+                  <div className="overflow-y-auto py-1">
+                    {types.map(t => (
+                      <label key={t.type} className="flex items-center gap-2 px-4 py-1.5 text-[13px] text-gray-700 hover:bg-gray-50 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={typeFilter.has(t.type)}
+                          onChange={() => setTypeFilter(prev => {
+                            const next = new Set(prev);
+                            if (next.has(t.type)) next.delete(t.type);
+                            else next.add(t.type);
+                            return next;
+                          })}
+                        />
+                        {colorByType && <span className="w-3 h-3 rounded-sm shrink-0 border border-black/[0.06]" style={{ background: typeColor(t.type) }} />}
+                        <span className="truncate">{t.type}</span>
+                        <span className="ml-auto text-[11px] text-gray-400 tabular-nums shrink-0">{t.locations} loc · {t.items}</span>
+                      </label>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+          );
+        })()}
+      </div>
+
+      {/* Search */}
+      {showSearch && (
+        <div className="absolute top-6 left-1/2 -translate-x-1/2 w-[420px] max-h-[60vh] flex flex-col bg-white/90 backdrop-blur-2xl rounded-2xl shadow-lg shadow-black/[0.06] border border-white/60 z-20 overflow-hidden">
+          <div className="flex items-center gap-2 px-4 py-3 border-b border-gray-100">
+            <svg className="w-4 h-4 text-gray-400 shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.8} d="M21 21l-5.2-5.2M17 10.5a6.5 6.5 0 11-13 0 6.5 6.5 0 0113 0z" />
+            </svg>
+            <input
+              autoFocus
+              value={searchQuery}
+              onChange={e => { setSearchQuery(e.target.value); setSearchIndex(0); }}
+              onFocus={e => e.target.select()}
+              onKeyDown={e => {
+                if (e.key === 'ArrowDown') { e.preventDefault(); setSearchIndex(i => Math.min(i + 1, searchResults.length - 1)); }
+                if (e.key === 'ArrowUp') { e.preventDefault(); setSearchIndex(i => Math.max(i - 1, 0)); }
+                if (e.key === 'Enter' && searchResults[searchIndex]) openSearchResult(searchResults[searchIndex]);
+              }}
+              placeholder="Find location, label, tag or stock no."
+              className="flex-1 bg-transparent text-[14px] text-gray-900 placeholder:text-gray-400 outline-none"
+            />
+          </div>
+          {searchQuery.trim() && (
+            <div className="overflow-y-auto py-1">
+              {searchResults.length === 0 ? (
+                <p className="px-4 py-3 text-[13px] text-gray-400">No matches</p>
+              ) : searchResults.map((r, i) => (
+                <button
+                  key={r.item.id}
+                  onClick={() => openSearchResult(r)}
+                  onMouseEnter={() => setSearchIndex(i)}
+                  className={`w-full text-left px-4 py-1.5 transition-colors ${i === searchIndex ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                >
+                  <div className="flex items-center gap-2">
+                    <span className={`text-[13px] truncate ${i === searchIndex ? 'text-blue-600 font-medium' : 'text-gray-800'}`}>{r.label}</span>
+                    <span className="ml-auto text-[11px] text-gray-400 shrink-0">{r.item.type === 'location' ? 'Location' : 'Label'}</span>
+                  </div>
+                  {r.detail && <div className="text-[12px] text-gray-500 truncate tabular-nums">{r.detail}</div>}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Heatmap legend */}
+      {heatmap && (
+        <div className="absolute bottom-6 left-6 w-[220px] bg-white/80 backdrop-blur-2xl rounded-2xl shadow-sm shadow-black/[0.04] border border-white/60 px-4 py-3">
+          <div className="text-[12px] font-medium text-gray-700 mb-2">Fill level</div>
+          <div
+            className="h-2.5 rounded-full"
+            style={{ background: `linear-gradient(to right, ${[0, 0.25, 0.5, 0.75, 1].map(heatColor).join(', ')})` }}
+          />
+          <div className="flex justify-between text-[11px] text-gray-500 mt-1 tabular-nums">
+            <span>Empty</span><span>50%</span><span>Full</span>
+          </div>
+          <div className="flex items-center gap-1.5 mt-2 text-[11px] text-gray-500">
+            <span className="w-2.5 h-2.5 rounded-sm" style={{ background: heatColor(2) }} /> Over capacity
+            <span className="w-2.5 h-2.5 rounded-sm border border-gray-200 bg-white ml-2" /> No data
+          </div>
+          <p className="text-[11px] text-gray-400 mt-2 leading-snug">
+            Items ÷ capacity. Locations without a capacity are compared with the busiest location.
+          </p>
+        </div>
+      )}
+
+      {/* Context menu */}
+      {contextMenu && (
+        <>
+          <div
+            className="fixed inset-0 z-30"
+            onClick={() => setContextMenu(null)}
+            onContextMenu={e => { e.preventDefault(); setContextMenu(null); }}
+          />
+          <div
+            className="fixed z-30 w-[220px] bg-white/95 backdrop-blur-2xl rounded-xl shadow-lg shadow-black/[0.08] border border-white/60 py-1"
+            style={{
+              left: Math.min(contextMenu.x, window.innerWidth - 228),
+              // Open upwards in the bottom half so the menu stays on screen
+              ...(contextMenu.y > window.innerHeight / 2
+                ? { bottom: window.innerHeight - contextMenu.y }
+                : { top: contextMenu.y }),
+            }}
+            onContextMenu={e => e.preventDefault()}
+          >
+            {menuTargets.length === 0 ? (
+              <>
+                <MenuItem label="Add location here" onClick={closeMenuAnd(() => addHere('location'))} />
+                <MenuItem label="Add text here" onClick={closeMenuAnd(() => addHere('text'))} />
+                <MenuItem
+                  label="Paste here"
+                  disabled={clipboardRef.current.length === 0}
+                  onClick={closeMenuAnd(() => pasteItems(clipboardRef.current, { x: contextMenu.wx, y: contextMenu.wy }))}
+                />
+                <MenuDivider />
+                <MenuItem
+                  label="Select all"
+                  disabled={items.length === 0}
+                  onClick={closeMenuAnd(() => setSelectedIds(selectableIds(items, layers)))}
+                />
+              </>
+            ) : (
+              <>
+                <MenuItem
+                  label={menuTargets.length === 1 && menuTargets[0].type !== 'location' ? 'Edit…' : 'Rename'}
+                  disabled={menuTargets.length !== 1}
+                  onClick={closeMenuAnd(() => renameItem(menuTargets[0]))}
+                />
+                {menuTargets.length === 1 && menuTargets[0].type === 'zone' && (
+                  <MenuItem
+                    label="Select locations inside"
+                    disabled={locationsInZone(menuTargets[0], items).length === 0}
+                    onClick={closeMenuAnd(() => {
+                      const zone = menuTargets[0] as ZoneItem;
+                      setSelectedIds(new Set(locationsInZone(zone, items).map(l => l.id)));
+                    })}
+                  />
+                )}
+                <MenuItem
+                  label={menuLocations.length > 1 ? `Sync ${plural(menuLocations.length, 'location')}` : 'Sync this location'}
+                  disabled={menuLocations.length === 0 || isSyncing}
+                  onClick={closeMenuAnd(() => handleSync('selection'))}
+                />
+                <MenuItem
+                  label={menuLocations.length > 1 ? `Copy ${menuLocations.length} tags` : 'Copy tag'}
+                  disabled={menuLocations.length === 0}
+                  onClick={closeMenuAnd(() => {
+                    navigator.clipboard.writeText(menuLocations.map(l => l.name).join('\n')).catch(() => { /* silent */ });
+                  })}
+                />
+                <MenuDivider />
+                <MenuItem label={`Duplicate${menuCount}`} onClick={closeMenuAnd(duplicateSelected)} />
+                <MenuItem label="Bring to front" onClick={closeMenuAnd(() => reorderSelected(true))} />
+                <MenuItem label="Send to back" onClick={closeMenuAnd(() => reorderSelected(false))} />
+                <MenuItem
+                  label={`${menuAllLocked ? 'Unlock' : 'Lock'}${menuCount}`}
+                  onClick={closeMenuAnd(() => setLocked(selectedIds, !menuAllLocked))}
+                />
+                <MenuDivider />
+                <MenuItem label={`Delete${menuCount}`} danger onClick={closeMenuAnd(deleteSelected)} />
+              </>
+            )}
+          </div>
+        </>
+      )}
+
+      {/* Toasts */}
+      {toasts.length > 0 && (
+        <div className="absolute top-6 right-6 z-30 flex flex-col gap-2 w-[300px]">
+          {toasts.map(t => (
+            <div key={t.id} className="bg-white/95 backdrop-blur-2xl rounded-2xl shadow-lg shadow-black/[0.08] border border-white/60 px-4 py-3">
+              <div className="flex items-center gap-2">
+                <span className="text-[13px] font-semibold text-gray-900">{t.title}</span>
+                <button
+                  onClick={() => setToasts(prev => prev.filter(x => x.id !== t.id))}
+                  className="ml-auto w-5 h-5 flex items-center justify-center rounded-full hover:bg-gray-100 text-gray-400"
+                >
+                  <svg width="10" height="10" viewBox="0 0 14 14" fill="none"><path d="M1 1l12 12M13 1L1 13" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round"/></svg>
+                </button>
+              </div>
+              <p className="text-[12px] text-gray-600 whitespace-pre-line mt-0.5">{t.body}</p>
+            </div>
+          ))}
+        </div>
+      )}
 
       {/* Zoom indicator */}
       <div className="absolute bottom-6 right-6">
@@ -1203,6 +3200,11 @@ function App() {
                     </button>
                   </div>
                 </div>
+                <div className="pt-4 border-t border-gray-100">
+                  <button onClick={() => setActiveModal('csv')} className="w-full bg-gray-100 text-gray-700 py-2.5 rounded-xl hover:bg-gray-200 active:bg-gray-300 transition-colors text-sm font-medium">
+                    Import from CSV / TSV…
+                  </button>
+                </div>
               </div>
               <div className="flex gap-2 mt-6">
                 <button onClick={() => setActiveModal(null)} className="flex-1 bg-gray-100 text-gray-600 py-2.5 rounded-xl hover:bg-gray-200 active:bg-gray-300 transition-colors text-sm font-medium">Cancel</button>
@@ -1213,6 +3215,112 @@ function App() {
         </>
       )}
 
+      {/* CSV Import Modal */}
+      {activeModal === 'csv' && (() => {
+        const dupes = csvPreview.filter(r => r.duplicate).length;
+        const noPrefix = csvRows.filter(r => !r.name.startsWith(REQUIRED_PREFIX)).length;
+        const importCount = csvPreview.length - (csvSkipDupes ? dupes : 0);
+        const numField = (label: string, key: keyof AutoLayout) => (
+          <div className="flex-1">
+            <label className="block text-[11px] font-medium text-gray-500 mb-1 tracking-wide">{label}</label>
+            <input
+              type="number"
+              min={1}
+              value={csvLayout[key]}
+              onChange={e => setCsvLayout(prev => ({ ...prev, [key]: Math.max(1, parseInt(e.target.value) || 1) }))}
+              className={inputCls + ' text-sm py-1.5'}
+            />
+          </div>
+        );
+        return (
+          <>
+            <div className="absolute inset-0 bg-black/10 backdrop-blur-sm" onClick={closeCsv} />
+            <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-[520px] max-h-[85vh] flex flex-col bg-white/95 backdrop-blur-2xl rounded-2xl shadow-2xl shadow-black/10 overflow-hidden z-10 border border-white/60">
+              <div className="p-6 flex flex-col min-h-0">
+                <h2 className="text-[17px] font-semibold text-gray-900 mb-1">Import Locations</h2>
+                <p className="text-[12px] text-gray-400 mb-4">
+                  CSV or TSV with a name column, and optional x / y or row / column columns.
+                </p>
+                <button onClick={() => csvInputRef.current?.click()} className="w-full bg-gray-100 text-gray-700 py-2.5 rounded-xl hover:bg-gray-200 active:bg-gray-300 transition-colors text-sm font-medium">
+                  {csvRows.length > 0 ? `${csvRows.length} rows loaded — choose another file…` : 'Choose file…'}
+                </button>
+                <input
+                  ref={csvInputRef}
+                  type="file"
+                  accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+                  className="hidden"
+                  onChange={e => {
+                    const f = e.target.files?.[0];
+                    e.target.value = '';
+                    if (f) handleCsvFile(f);
+                  }}
+                />
+                {csvError && <p className="text-[12px] text-red-500 mt-2">{csvError}</p>}
+                <h3 className="text-xs font-medium text-gray-500 mt-4 mb-2 tracking-wide">Auto-layout (rows without coordinates)</h3>
+                <div className="flex gap-2">
+                  {numField('Rows per column', 'rowsPerColumn')}
+                  {numField('Row spacing (cells)', 'rowSpacing')}
+                  {numField('Column spacing (cells)', 'columnSpacing')}
+                </div>
+                {csvRows.length > 0 && (
+                  <>
+                    <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-4 text-[12px] text-gray-600">
+                      <label className="flex items-center gap-1.5">
+                        <input type="checkbox" checked={csvRead.hasHeader} onChange={e => setCsvHeader(e.target.checked)} />
+                        First line is a header
+                      </label>
+                      <label className="flex items-center gap-1.5">
+                        <input type="checkbox" checked={csvSkipDupes} onChange={e => setCsvSkipDupes(e.target.checked)} />
+                        Skip duplicates ({dupes})
+                      </label>
+                      <label className="flex items-center gap-1.5">
+                        <input type="checkbox" checked={csvAddPrefix} onChange={e => setCsvAddPrefix(e.target.checked)} />
+                        Add "{REQUIRED_PREFIX}" where missing ({noPrefix})
+                      </label>
+                    </div>
+                    <div className="mt-3 flex-1 min-h-0 overflow-y-auto border border-gray-100 rounded-xl">
+                      <table className="w-full text-[12px]">
+                        <thead className="sticky top-0 bg-white">
+                          <tr className="border-b border-gray-100 text-left">
+                            <th className="px-3 py-2 font-medium text-gray-400">Line</th>
+                            <th className="px-2 py-2 font-medium text-gray-400">Name</th>
+                            <th className="px-2 py-2 font-medium text-gray-400">Position</th>
+                            <th className="px-3 py-2 font-medium text-gray-400">Issues</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {csvPreview.map((r, i) => (
+                            <tr key={i} className={`border-b border-gray-50 ${r.duplicate && csvSkipDupes ? 'opacity-40' : ''}`}>
+                              <td className="px-3 py-1.5 text-gray-400 tabular-nums">{r.line}</td>
+                              <td className="px-2 py-1.5 text-gray-900 font-medium">{r.name}</td>
+                              <td className="px-2 py-1.5 text-gray-500 tabular-nums">{snap(r.px)}, {snap(r.py)}</td>
+                              <td className="px-3 py-1.5">
+                                {r.duplicate && <span className="text-amber-600 mr-2">Duplicate</span>}
+                                {r.missingPrefix && <span className="text-red-500">No "{REQUIRED_PREFIX}" prefix</span>}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </>
+                )}
+                <div className="flex gap-2 mt-6">
+                  <button onClick={closeCsv} className="flex-1 bg-gray-100 text-gray-600 py-2.5 rounded-xl hover:bg-gray-200 active:bg-gray-300 transition-colors text-sm font-medium">Cancel</button>
+                  <button
+                    onClick={handleCsvImport}
+                    disabled={importCount === 0}
+                    className="flex-1 bg-blue-500 text-white py-2.5 rounded-xl hover:bg-blue-600 active:bg-blue-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors text-sm font-medium"
+                  >
+                    Import {importCount > 0 ? importCount : ''}
+                  </button>
+                </div>
+              </div>
+            </div>
+          </>
+        );
+      })()}
+
       {/* Add Text Modal */}
       {activeModal === 'text' && (
         <>
@@ -1237,7 +3345,9 @@ function App() {
       {sidePanelLocId !== null && (() => {
         const loc = items.find(it => it.id === sidePanelLocId && it.type === 'location') as LocationItem | undefined;
         if (!loc) return null;
-        const data = locationDataRef.current.get(sidePanelLocId) ?? [];
+        const cached = locationDataRef.current.get(sidePanelLocId);
+        const data = cached?.items ?? [];
+        const isStale = cached?.fetchedAt !== undefined && staleHours !== null && now - cached.fetchedAt > staleHours * 3600000;
         return (
           <div className="absolute top-0 right-0 h-full w-[360px] bg-white/95 backdrop-blur-2xl shadow-2xl shadow-black/10 border-l border-gray-200/60 z-10 flex flex-col">
             {/* Header */}
@@ -1257,6 +3367,7 @@ function App() {
               <div className="flex gap-2">
                 <input
                   type="text"
+                  ref={nameInputRef}
                   value={editName}
                   onChange={e => setEditName(e.target.value)}
                   onKeyDown={e => e.key === 'Enter' && handleSaveLocName()}
@@ -1273,61 +3384,288 @@ function App() {
               </div>
             </div>
 
+            {/* Size & rotation */}
+            <div className="px-5 py-3 border-b border-gray-100 flex items-center gap-2">
+              <span className="text-xs font-medium text-gray-500 tracking-wide">Size</span>
+              <span className="text-[13px] text-gray-600 tabular-nums">{loc.width} × {loc.height}{loc.rotation === 90 ? ' · 90°' : ''}</span>
+              <button
+                onClick={() => handleRotate(loc)}
+                className="ml-auto px-2.5 py-1 bg-gray-100 text-gray-600 rounded-lg hover:bg-gray-200 active:bg-gray-300 transition-colors text-xs font-medium"
+              >
+                Rotate 90°
+              </button>
+            </div>
+
+            {/* Capacity */}
+            <div className="px-5 py-3 border-b border-gray-100 flex items-center gap-2">
+              <span className="text-xs font-medium text-gray-500 tracking-wide">Capacity</span>
+              <input
+                key={`${loc.id}:${loc.capacity ?? ''}`}
+                type="number"
+                min={1}
+                defaultValue={loc.capacity ?? ''}
+                placeholder="Not set"
+                onBlur={e => setCapacity(new Set([loc.id]), Number(e.target.value) > 0 ? Math.floor(Number(e.target.value)) : null)}
+                onKeyDown={e => e.key === 'Enter' && e.currentTarget.blur()}
+                className="w-20 bg-white border border-gray-200 rounded-lg px-2 py-1 text-[13px] text-gray-700 tabular-nums focus:outline-none focus:border-blue-400"
+              />
+              <span className="text-[12px] text-gray-400">items</span>
+              {loc.capacity && cached?.fetchedAt !== undefined && (
+                <span className="ml-auto text-[12px] text-gray-500 tabular-nums">{Math.round(data.length / loc.capacity * 100)}% full</span>
+              )}
+            </div>
+
             {/* Status */}
             <div className="px-5 py-3 border-b border-gray-100 flex items-center gap-2">
-              <div className={`w-2.5 h-2.5 rounded-full ${loc.status === 'green' ? 'bg-emerald-400' : loc.status === 'red' ? 'bg-red-400' : 'bg-amber-400'}`} />
-              <span className="text-[13px] text-gray-600 font-medium capitalize">{loc.status === 'green' ? 'Clear' : loc.status === 'red' ? 'Items Found' : 'Unknown'}</span>
+              <StatusIcon status={loc.status} />
+              <span className="text-[13px] text-gray-600 font-medium">{STATUS_INFO[loc.status].label}</span>
               <span className="text-[13px] text-gray-400 ml-auto">{data.length} item{data.length !== 1 ? 's' : ''}</span>
             </div>
-
-            {/* Items list */}
-            <div className="flex-1 overflow-y-auto">
-              {data.length === 0 ? (
-                <div className="px-5 py-8 text-center text-[13px] text-gray-400">
-                  No items at this location.
+            <div className="px-5 py-2 border-b border-gray-100 text-[12px] text-gray-500">
+              {STATUS_INFO[loc.status].explanation}
+              {cached?.lastError && isFailure(loc.status) && <span className="text-gray-400"> ({cached.lastError})</span>}
+              {!!cached?.skipped && (
+                <div className="text-amber-600 mt-0.5">
+                  {plural(cached.skipped, 'item')} in the server's answer couldn't be read and {cached.skipped === 1 ? 'is' : 'are'} not listed.
                 </div>
-              ) : (
-                <table className="w-full text-[13px]">
-                  <thead>
-                    <tr className="border-b border-gray-100 text-left">
-                      <th className="px-5 py-2.5 text-xs font-medium text-gray-400 tracking-wide">Item Type</th>
-                      <th className="px-2 py-2.5 text-xs font-medium text-gray-400 tracking-wide">Tag</th>
-                      <th className="px-5 py-2.5 text-xs font-medium text-gray-400 tracking-wide text-right">Stock Number</th>
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {data.map((item, i) => (
-                      <tr key={i} className="border-b border-gray-50 hover:bg-gray-50/50 transition-colors">
-                        <td className="px-5 py-2 text-gray-900 font-medium">{item.itemType}</td>
-                        <td className="px-2 py-2 text-gray-600 tabular-nums">{item.tag}</td>
-                        <td className="px-5 py-2 text-gray-500 tabular-nums text-right">{item.vstockNo}</td>
-                      </tr>
-                    ))}
-                  </tbody>
-                </table>
               )}
             </div>
+            <div className={`px-5 py-2 border-b border-gray-100 text-[12px] ${isStale ? 'text-amber-600 bg-amber-50/60' : 'text-gray-400'}`}>
+              {cached?.fetchedAt !== undefined
+                ? <>Last checked {timeAgo(cached.fetchedAt, now)}{isStale && ' · may be out of date'}</>
+                : cached ? 'No check has succeeded yet.' : 'Not checked yet. Sync to see what is stored here.'}
+              {cached?.lastErrorAt !== undefined && (
+                <span className="text-red-500"> · last attempt failed {timeAgo(cached.lastErrorAt, now)}</span>
+              )}
+            </div>
+
+            {/* Tabs */}
+            <div className="px-5 py-2.5 border-b border-gray-100">
+              <div className="flex gap-1 p-0.5 bg-gray-100 rounded-lg">
+                {(['items', 'history'] as const).map(tab => (
+                  <button
+                    key={tab}
+                    onClick={() => setSidePanelTab(tab)}
+                    className={`flex-1 py-1.5 text-xs font-medium rounded-md transition-all duration-150 ${sidePanelTab === tab ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500'}`}
+                  >
+                    {tab === 'items' ? 'Items' : 'History'}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {sidePanelTab === 'history' ? (
+              <div className="flex-1 overflow-y-auto">
+                {(() => {
+                  const hist = locationHistory(syncRuns, loc.id);
+                  if (hist.length === 0) {
+                    return <div className="px-5 py-8 text-center text-[13px] text-gray-400">No syncs recorded for this location yet.</div>;
+                  }
+                  return hist.map(({ run, entry, change }) => (
+                    <div key={run.id} className="px-5 py-2.5 border-b border-gray-50">
+                      <div className="flex items-center gap-2">
+                        <span className="text-[13px] text-gray-900 font-medium tabular-nums">{formatStamp(run.startedAt)}</span>
+                        <span className="text-[12px] text-gray-400">
+                          {isFailure(entry.status) ? STATUS_INFO[entry.status].label : plural(entry.items.length, 'item')}
+                        </span>
+                        <button
+                          onClick={() => setSummaryRunId(run.id)}
+                          className="ml-auto text-[12px] text-blue-500 hover:text-blue-600 transition-colors"
+                        >
+                          Summary
+                        </button>
+                      </div>
+                      {change?.arrived.map(i => (
+                        <div key={`a${i.tag}|${i.vstockNo}`} className="text-[12px] text-emerald-600 tabular-nums">+ {i.itemType} · tag {i.tag} · {i.vstockNo}</div>
+                      ))}
+                      {change?.left.map(i => (
+                        <div key={`l${i.tag}|${i.vstockNo}`} className="text-[12px] text-red-500 tabular-nums">− {i.itemType} · tag {i.tag} · {i.vstockNo}</div>
+                      ))}
+                    </div>
+                  ));
+                })()}
+              </div>
+            ) : (
+              <div className="flex-1 overflow-y-auto">
+                {data.length === 0 ? (
+                  <div className="px-5 py-8 text-center text-[13px] text-gray-400">
+                    {cached?.fetchedAt !== undefined ? 'No items at this location.' : 'No data for this location.'}
+                  </div>
+                ) : (
+                  <table className="w-full text-[13px]">
+                    <thead>
+                      <tr className="border-b border-gray-100 text-left">
+                        <th className="px-5 py-2.5 text-xs font-medium text-gray-400 tracking-wide">Item Type</th>
+                        <th className="px-2 py-2.5 text-xs font-medium text-gray-400 tracking-wide">Tag</th>
+                        <th className="px-5 py-2.5 text-xs font-medium text-gray-400 tracking-wide text-right">Stock Number</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {data.map((item, i) => (
+                        <tr key={i} className="border-b border-gray-50 hover:bg-gray-50/50 transition-colors">
+                          <td className="px-5 py-2 text-gray-900 font-medium">{item.itemType}</td>
+                          <td className="px-2 py-2 text-gray-600 tabular-nums">{item.tag}</td>
+                          <td className="px-5 py-2 text-gray-500 tabular-nums text-right">{item.vstockNo}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            )}
           </div>
         );
       })()}
 
-      {/* Edit Text Panel */}
-      {editingItem?.type === 'text' && (
+      {/* Sync summary */}
+      {summaryRunId !== null && (() => {
+        const run = syncRuns.find(r => r.id === summaryRunId);
+        if (!run) return null;
+        const failed = run.entries.filter(e => isFailure(e.status)).length;
+        return (
+          <>
+            <div className="absolute inset-0 bg-black/10 backdrop-blur-sm" onClick={() => setSummaryRunId(null)} />
+            <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-[440px] max-h-[80vh] flex flex-col bg-white/95 backdrop-blur-2xl rounded-2xl shadow-2xl shadow-black/10 overflow-hidden z-20 border border-white/60">
+              <div className="p-6 pb-4">
+                <h2 className="text-[17px] font-semibold text-gray-900 mb-4">Sync Summary</h2>
+                <select
+                  value={String(run.id)}
+                  onChange={e => setSummaryRunId(Number(e.target.value))}
+                  className={inputCls}
+                >
+                  {[...syncRuns].reverse().map(r => (
+                    <option key={r.id} value={String(r.id)}>
+                      {formatStamp(r.startedAt)}{r.scope && r.scope !== 'all' ? ` · ${SYNC_SCOPE_LABELS[r.scope].replace('Sync ', '')}` : ''} · {plural(r.changes.length, 'change')}{r.finishedAt === null ? ' · incomplete' : ''}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-[12px] text-gray-400 mt-2 px-1">
+                  {plural(run.entries.length, 'location')} checked
+                  {run.finishedAt === null && !isSyncing && ' (stopped early)'}
+                  {failed > 0 && ` · ${failed} failed`}
+                  {' · '}{run.changes.length === 0 ? 'no contents changed' : `${plural(run.changes.length, 'location')} changed`}
+                </p>
+              </div>
+              <div className="flex-1 overflow-y-auto border-t border-gray-100">
+                {run.changes.length === 0 ? (
+                  <div className="px-6 py-8 text-center text-[13px] text-gray-400">
+                    Nothing arrived or left since the previous check.
+                  </div>
+                ) : run.changes.map(c => {
+                  const it = items.find(i => i.id === c.id);
+                  return (
+                    <div key={c.id} className="px-6 py-2.5 border-b border-gray-50">
+                      <button
+                        onClick={() => { if (it) { focusItem(it); setSummaryRunId(null); } }}
+                        disabled={!it}
+                        className="text-[13px] font-medium text-gray-900 hover:text-blue-600 disabled:text-gray-400 disabled:hover:text-gray-400 transition-colors"
+                      >
+                        {c.name}
+                      </button>
+                      {c.arrived.map(i => (
+                        <div key={`a${i.tag}|${i.vstockNo}`} className="text-[12px] text-emerald-600 tabular-nums">+ {i.itemType} · tag {i.tag} · {i.vstockNo}</div>
+                      ))}
+                      {c.left.map(i => (
+                        <div key={`l${i.tag}|${i.vstockNo}`} className="text-[12px] text-red-500 tabular-nums">− {i.itemType} · tag {i.tag} · {i.vstockNo}</div>
+                      ))}
+                    </div>
+                  );
+                })}
+              </div>
+              <div className="p-4 border-t border-gray-100">
+                <button onClick={() => setSummaryRunId(null)} className="w-full bg-gray-100 text-gray-600 py-2.5 rounded-xl hover:bg-gray-200 active:bg-gray-300 transition-colors text-sm font-medium">Done</button>
+              </div>
+            </div>
+          </>
+        );
+      })()}
+
+      {/* Edit Text / Shape Panel */}
+      {editingItem && editingItem.type !== 'location' && (
         <>
           <div className="absolute inset-0 bg-black/10 backdrop-blur-sm" onClick={() => setEditingItem(null)} />
           <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-[360px] bg-white/95 backdrop-blur-2xl rounded-2xl shadow-2xl shadow-black/10 overflow-hidden z-10 border border-white/60">
             <div className="p-6">
-              <h2 className="text-[17px] font-semibold text-gray-900 mb-5">Edit Text</h2>
-              <div>
-                <label className="block text-xs font-medium text-gray-500 mb-1.5 tracking-wide">Content</label>
-                <input
-                  type="text"
-                  value={editContent}
-                  onChange={e => setEditContent(e.target.value)}
-                  onKeyDown={e => e.key === 'Enter' && handleSaveEdit()}
-                  className={inputCls}
-                  autoFocus
-                />
+              <h2 className="text-[17px] font-semibold text-gray-900 mb-5 capitalize">Edit {itemKind(editingItem)}</h2>
+              <div className="space-y-4">
+                {(editingItem.type === 'text' || editingItem.type === 'zone') && (
+                  <div>
+                    <label className="block text-xs font-medium text-gray-500 mb-1.5 tracking-wide">{editingItem.type === 'text' ? 'Content' : 'Label'}</label>
+                    <input
+                      type="text"
+                      value={editContent}
+                      onChange={e => setEditContent(e.target.value)}
+                      onKeyDown={e => e.key === 'Enter' && handleSaveEdit()}
+                      placeholder={editingItem.type === 'zone' ? 'e.g. Engines, Quarantine' : undefined}
+                      className={inputCls}
+                      autoFocus
+                    />
+                  </div>
+                )}
+                <div>
+                  <label className="block text-xs font-medium text-gray-500 mb-1.5 tracking-wide">Colour</label>
+                  <div className="flex items-center gap-1.5">
+                    {PALETTE.map(c => (
+                      <button
+                        key={c}
+                        onClick={() => setEditStyle(st => ({ ...st, color: c }))}
+                        className={`w-6 h-6 rounded-full border border-black/[0.08] transition-transform ${editStyle.color.toLowerCase() === c.toLowerCase() ? 'ring-2 ring-blue-500 ring-offset-1 scale-110' : 'hover:scale-110'}`}
+                        style={{ background: c }}
+                        title={c}
+                      />
+                    ))}
+                    <input
+                      type="color"
+                      value={editStyle.color}
+                      onChange={e => setEditStyle(st => ({ ...st, color: e.target.value }))}
+                      className="w-7 h-7 ml-auto rounded-lg cursor-pointer bg-transparent"
+                      title="Custom colour"
+                    />
+                  </div>
+                </div>
+                {(editingItem.type === 'text' || editingItem.type === 'zone') && (
+                  <div>
+                    <label className="block text-xs font-medium text-gray-500 mb-1.5 tracking-wide">Font size</label>
+                    <input
+                      type="number"
+                      min={6}
+                      max={200}
+                      value={editStyle.fontSize}
+                      onChange={e => {
+                        const n = Number(e.target.value);
+                        if (n > 0) setEditStyle(st => ({ ...st, fontSize: Math.min(200, n) }));
+                      }}
+                      onKeyDown={e => e.key === 'Enter' && handleSaveEdit()}
+                      className={inputCls}
+                    />
+                  </div>
+                )}
+                {editingItem.type !== 'text' && (
+                  <div>
+                    <label className="block text-xs font-medium text-gray-500 mb-1.5 tracking-wide">Stroke width</label>
+                    <div className="flex gap-1 p-0.5 bg-gray-100 rounded-lg">
+                      {STROKE_OPTIONS.map(w => (
+                        <button
+                          key={w}
+                          onClick={() => setEditStyle(st => ({ ...st, strokeWidth: w }))}
+                          className={`flex-1 py-1.5 text-xs font-medium rounded-md transition-all duration-150 ${editStyle.strokeWidth === w ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500'}`}
+                        >
+                          {w}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                {(editingItem.type === 'line' || editingItem.type === 'polyline') && (
+                  <label className="flex items-center gap-2 text-[13px] text-gray-700 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={editStyle.arrow}
+                      onChange={e => setEditStyle(st => ({ ...st, arrow: e.target.checked }))}
+                    />
+                    Arrowhead at the end
+                  </label>
+                )}
               </div>
               <div className="flex gap-2 mt-6">
                 <button onClick={() => setEditingItem(null)} className="flex-1 bg-gray-100 text-gray-600 py-2.5 rounded-xl hover:bg-gray-200 active:bg-gray-300 transition-colors text-sm font-medium">Cancel</button>
@@ -1338,10 +3676,39 @@ function App() {
         </>
       )}
 
+      {/* Password prompt (password not saved) */}
+      {passwordPrompt !== null && (
+        <>
+          <div className="absolute inset-0 bg-black/10 backdrop-blur-sm" onClick={() => setPasswordPrompt(null)} />
+          <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-[360px] bg-white/95 backdrop-blur-2xl rounded-2xl shadow-2xl shadow-black/10 overflow-hidden z-10 border border-white/60">
+            <div className="p-6">
+              <h2 className="text-[17px] font-semibold text-gray-900 mb-1">Password</h2>
+              <p className="text-[13px] text-gray-500 mb-5">Enter the PinPro password for {username.trim()} to sync. It won't be saved.</p>
+              <input
+                type="password"
+                value={promptPassword}
+                onChange={e => setPromptPassword(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && submitPasswordPrompt()}
+                placeholder="Password"
+                className={inputCls}
+                autoComplete="current-password"
+                autoFocus
+              />
+              <div className="flex gap-2 mt-6">
+                <button onClick={() => setPasswordPrompt(null)} className="flex-1 bg-gray-100 text-gray-600 py-2.5 rounded-xl hover:bg-gray-200 active:bg-gray-300 transition-colors text-sm font-medium">Cancel</button>
+                <button onClick={submitPasswordPrompt} disabled={!promptPassword.trim()} className="flex-1 bg-blue-500 text-white py-2.5 rounded-xl hover:bg-blue-600 active:bg-blue-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors text-sm font-medium">Sync</button>
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+
       {/* Line Mode Indicator */}
-      {activeModal === 'line' && (
+      {(activeModal === 'line' || isPointTool(activeModal)) && (
         <div className="absolute top-6 left-1/2 -translate-x-1/2 bg-white/80 backdrop-blur-2xl px-4 py-2 rounded-full shadow-sm shadow-black/[0.04] text-[13px] text-gray-500 font-medium border border-white/60">
-          {lineStart ? 'Click to set end point' : 'Click to set start point'}
+          {activeModal === 'line' ? (lineStart ? 'Click to set end point' : 'Click to set start point')
+            : activeModal === 'zone' ? (drawPoints.length ? 'Click the opposite corner' : 'Click one corner of the zone')
+            : drawPoints.length ? 'Click to add points, double-click to finish' : 'Click to set the first point'}
         </div>
       )}
 
@@ -1349,9 +3716,15 @@ function App() {
       {isSyncing && syncTotal > 0 && (
         <div className="absolute top-6 left-1/2 -translate-x-1/2 z-20">
           <div className="bg-white/90 backdrop-blur-2xl rounded-2xl shadow-lg shadow-black/[0.06] px-5 py-3 border border-white/60 min-w-[260px]">
-            <div className="flex items-center justify-between mb-2">
+            <div className="flex items-center gap-3 mb-2">
               <span className="text-[13px] font-medium text-gray-700">Syncing locations…</span>
-              <span className="text-[12px] tabular-nums text-gray-400 font-medium">{syncProgress}/{syncTotal}</span>
+              <span className="ml-auto text-[12px] tabular-nums text-gray-400 font-medium">{syncProgress}/{syncTotal}</span>
+              <button
+                onClick={() => syncAbortRef.current?.abort()}
+                className="text-[12px] font-medium text-red-500 hover:text-red-600 transition-colors"
+              >
+                Cancel
+              </button>
             </div>
             <div className="w-full h-1.5 bg-gray-100 rounded-full overflow-hidden">
               <div
@@ -1365,32 +3738,370 @@ function App() {
 
       {/* Selection count badge */}
       {selectedIds.size > 1 && !activeModal && !editingItem && !isSyncing && (
-        <div className="absolute top-6 left-1/2 -translate-x-1/2 bg-white/80 backdrop-blur-2xl px-3.5 py-1.5 rounded-full shadow-sm shadow-black/[0.04] text-[13px] text-gray-500 font-medium border border-white/60">
-          {selectedIds.size} selected
+        <div className="absolute top-6 left-1/2 -translate-x-1/2 bg-white/80 backdrop-blur-2xl px-3.5 py-1.5 rounded-full shadow-sm shadow-black/[0.04] text-[13px] text-gray-500 font-medium border border-white/60 flex items-center gap-1">
+          <span className="mr-1">{selectedIds.size} selected</span>
+          {selectedLocations.length > 1 && (
+            <>
+              <div className="w-px h-4 bg-black/[0.08] mx-1" />
+              {([
+                ['left', 'M4 4v16M8 8h10M8 16h6'],
+                ['hcenter', 'M12 4v16M6 8h12M8 16h8'],
+                ['right', 'M20 4v16M6 8h10M10 16h6'],
+                ['top', 'M4 4h16M8 8v10M16 8v6'],
+                ['vcenter', 'M4 12h16M8 6v12M16 8v8'],
+                ['bottom', 'M4 20h16M8 6v10M16 10v6'],
+              ] as const).map(([mode, d]) => (
+                <button
+                  key={mode}
+                  onClick={() => handleAlign(mode)}
+                  className="p-1 rounded-lg hover:bg-black/[0.05] text-gray-500 hover:text-gray-800 transition-colors"
+                  title={ALIGN_LABELS[mode]}
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.6} d={d} />
+                  </svg>
+                </button>
+              ))}
+              <div className="w-px h-4 bg-black/[0.08] mx-1" />
+              <button
+                onClick={() => handleDistribute('h')}
+                disabled={selectedLocations.length < 3}
+                className="p-1 rounded-lg hover:bg-black/[0.05] text-gray-500 hover:text-gray-800 transition-colors disabled:opacity-30 disabled:pointer-events-none"
+                title="Distribute horizontally"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.6} d="M4 4v16M20 4v16M10 8v8M14 8v8" />
+                </svg>
+              </button>
+              <button
+                onClick={() => handleDistribute('v')}
+                disabled={selectedLocations.length < 3}
+                className="p-1 rounded-lg hover:bg-black/[0.05] text-gray-500 hover:text-gray-800 transition-colors disabled:opacity-30 disabled:pointer-events-none"
+                title="Distribute vertically"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.6} d="M4 4h16M4 20h16M8 10h8M8 14h8" />
+                </svg>
+              </button>
+              <div className="w-px h-4 bg-black/[0.08] mx-1" />
+              <input
+                type="number"
+                min={1}
+                value={arrangeCols}
+                onChange={e => setArrangeCols(Math.max(1, parseInt(e.target.value) || 1))}
+                className="w-11 bg-white/80 border border-gray-200 rounded-md px-1.5 py-0.5 text-[12px] text-gray-700 tabular-nums focus:outline-none focus:border-blue-400"
+                title="Columns"
+              />
+              <span className="text-[11px] text-gray-400">cols</span>
+              <input
+                type="number"
+                min={0}
+                value={arrangeSpacing}
+                onChange={e => setArrangeSpacing(Math.max(0, parseInt(e.target.value) || 0))}
+                className="w-11 bg-white/80 border border-gray-200 rounded-md px-1.5 py-0.5 text-[12px] text-gray-700 tabular-nums focus:outline-none focus:border-blue-400"
+                title="Spacing (grid cells)"
+              />
+              <span className="text-[11px] text-gray-400">gap</span>
+              <button
+                onClick={handleArrangeGrid}
+                className="ml-1 px-2 py-0.5 rounded-lg bg-gray-900 text-white text-[12px] hover:bg-gray-800 transition-colors"
+                title="Arrange as grid"
+              >
+                Grid
+              </button>
+            </>
+          )}
+          {selectedLocations.length > 1 && (
+            <>
+              <div className="w-px h-4 bg-black/[0.08] mx-1" />
+              <input
+                type="number"
+                min={1}
+                value={bulkCapacity}
+                onChange={e => setBulkCapacity(e.target.value)}
+                placeholder="—"
+                className="w-12 bg-white/80 border border-gray-200 rounded-md px-1.5 py-0.5 text-[12px] text-gray-700 tabular-nums focus:outline-none focus:border-blue-400"
+                title="Capacity (empty clears it)"
+              />
+              <button
+                onClick={() => setCapacity(selectedIds, Number(bulkCapacity) > 0 ? Math.floor(Number(bulkCapacity)) : null)}
+                className="px-2 py-0.5 rounded-lg bg-gray-900 text-white text-[12px] hover:bg-gray-800 transition-colors"
+                title="Set capacity of the selected locations"
+              >
+                Capacity
+              </button>
+            </>
+          )}
       </div>
       )}
 
+      {/* Layouts Modal */}
+      {showLayouts && (
+        <>
+          <div className="absolute inset-0 bg-black/10 backdrop-blur-sm" onClick={() => { setShowLayouts(false); setRenamingLayoutId(null); }} />
+          <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-[360px] bg-white/95 backdrop-blur-2xl rounded-2xl shadow-2xl shadow-black/10 overflow-hidden z-10 border border-white/60">
+            <div className="p-6">
+              <h2 className="text-[17px] font-semibold text-gray-900 mb-5">Layouts</h2>
+              <div className="space-y-1 max-h-[280px] overflow-y-auto -mx-2">
+                {layouts.map(l => (
+                  <div
+                    key={l.id}
+                    className={`flex items-center gap-1 px-2 py-1.5 rounded-xl ${l.id === activeLayoutId ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                  >
+                    {renamingLayoutId === l.id ? (
+                      <input
+                        type="text"
+                        value={layoutNameDraft}
+                        onChange={e => setLayoutNameDraft(e.target.value)}
+                        onKeyDown={e => {
+                          if (e.key === 'Enter') handleRenameLayout(l.id);
+                          if (e.key === 'Escape') { e.stopPropagation(); setRenamingLayoutId(null); }
+                        }}
+                        onBlur={() => handleRenameLayout(l.id)}
+                        className={inputCls + ' text-sm py-1.5'}
+                        autoFocus
+                      />
+                    ) : (
+                      <button
+                        onClick={() => handleSwitchLayout(l.id)}
+                        className={`flex-1 text-left text-[14px] truncate py-1 ${l.id === activeLayoutId ? 'text-blue-600 font-medium' : 'text-gray-700'}`}
+                      >
+                        {l.name}
+                      </button>
+                    )}
+                    <button
+                      onClick={() => { setRenamingLayoutId(l.id); setLayoutNameDraft(l.name); }}
+                      className="p-1.5 rounded-lg hover:bg-black/[0.04] text-gray-400 hover:text-gray-600"
+                      title="Rename"
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.6} d="M15.232 5.232l3.536 3.536M4 20h4L19.768 8.232a2.5 2.5 0 00-3.536-3.536L4 16.464V20z" />
+                      </svg>
+                    </button>
+                    <button
+                      onClick={() => handleDuplicateLayout(l.id)}
+                      className="p-1.5 rounded-lg hover:bg-black/[0.04] text-gray-400 hover:text-gray-600"
+                      title="Duplicate"
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.6} d="M8 8V5a2 2 0 012-2h9a2 2 0 012 2v9a2 2 0 01-2 2h-3M5 8h9a2 2 0 012 2v9a2 2 0 01-2 2H5a2 2 0 01-2-2v-9a2 2 0 012-2z" />
+                      </svg>
+                    </button>
+                    <button
+                      onClick={() => handleDeleteLayout(l.id)}
+                      disabled={layouts.length <= 1}
+                      className="p-1.5 rounded-lg hover:bg-red-50 text-gray-400 hover:text-red-500 disabled:opacity-30 disabled:pointer-events-none"
+                      title="Delete"
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.6} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                      </svg>
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <div className="pt-4 mt-4 border-t border-gray-100">
+                <h3 className="text-xs font-medium text-gray-500 mb-3 tracking-wide">Export / Import</h3>
+                <div className="flex gap-2">
+                  <button onClick={handleExportLayout} className="flex-1 bg-gray-100 text-gray-700 py-2 rounded-xl hover:bg-gray-200 active:bg-gray-300 transition-colors text-sm font-medium">Export</button>
+                  <button onClick={() => importInputRef.current?.click()} className="flex-1 bg-gray-100 text-gray-700 py-2 rounded-xl hover:bg-gray-200 active:bg-gray-300 transition-colors text-sm font-medium">Import…</button>
+                  <input
+                    ref={importInputRef}
+                    type="file"
+                    accept=".json,application/json"
+                    className="hidden"
+                    onChange={e => {
+                      const f = e.target.files?.[0];
+                      e.target.value = '';
+                      if (f) handleImportFile(f);
+                    }}
+                  />
+                </div>
+                {importError && (
+                  <p className="text-[12px] text-red-500 mt-2 px-1">{importError}</p>
+                )}
+                {pendingImport && (
+                  <div className="mt-3 p-3 bg-gray-50 rounded-xl">
+                    <p className="text-[13px] text-gray-700">
+                      <span className="font-medium">{pendingImport.name || 'Untitled layout'}</span>
+                      {' — '}{pendingImport.locations.length} locations, {pendingImport.texts.length} labels, {pendingImport.lines.length} lines, {pendingImport.polylines.length} polylines, {pendingImport.zones.length} zones
+                    </p>
+                    <div className="flex gap-2 mt-2.5">
+                      <button onClick={() => handleApplyImport('replace')} className="flex-1 bg-blue-500 text-white py-1.5 rounded-lg hover:bg-blue-600 active:bg-blue-700 transition-colors text-xs font-medium">Replace current</button>
+                      <button onClick={() => handleApplyImport('merge')} className="flex-1 bg-gray-900 text-white py-1.5 rounded-lg hover:bg-gray-800 active:bg-black transition-colors text-xs font-medium">Merge into current</button>
+                      <button onClick={() => setPendingImport(null)} className="px-2.5 bg-gray-200 text-gray-600 py-1.5 rounded-lg hover:bg-gray-300 transition-colors text-xs font-medium">Cancel</button>
+                    </div>
+                  </div>
+                )}
+              </div>
+              <div className="pt-4 mt-4 border-t border-gray-100">
+                <h3 className="text-xs font-medium text-gray-500 mb-3 tracking-wide">New Layout</h3>
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={newLayoutName}
+                    onChange={e => setNewLayoutName(e.target.value)}
+                    onKeyDown={e => e.key === 'Enter' && handleCreateLayout()}
+                    placeholder="e.g. Building B"
+                    className={inputCls + ' flex-1'}
+                  />
+                  <button
+                    onClick={handleCreateLayout}
+                    disabled={!newLayoutName.trim()}
+                    className="px-3 py-2.5 bg-blue-500 text-white rounded-xl hover:bg-blue-600 active:bg-blue-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors text-sm font-medium shrink-0"
+                  >
+                    Create
+                  </button>
+                </div>
+              </div>
+              <div className="flex gap-2 mt-6">
+                <button onClick={() => { setShowLayouts(false); setRenamingLayoutId(null); }} className="flex-1 bg-gray-100 text-gray-600 py-2.5 rounded-xl hover:bg-gray-200 active:bg-gray-300 transition-colors text-sm font-medium">Done</button>
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+
+      {/* Print / Export Image Modal */}
+      {showExport && (
+        <>
+          <div className="absolute inset-0 bg-black/10 backdrop-blur-sm" onClick={() => setShowExport(false)} />
+          <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-[360px] bg-white/95 backdrop-blur-2xl rounded-2xl shadow-2xl shadow-black/10 overflow-hidden z-10 border border-white/60">
+            <div className="p-6">
+              <h2 className="text-[17px] font-semibold text-gray-900 mb-5">Print / Export Image</h2>
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-xs font-medium text-gray-500 mb-1.5 tracking-wide">Title</label>
+                  <input type="text" value={exportTitle} onChange={e => setExportTitle(e.target.value)} className={inputCls} autoFocus />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-500 mb-1.5 tracking-wide">Contents</label>
+                  <div className="flex gap-1 p-0.5 bg-gray-100 rounded-lg">
+                    <button
+                      onClick={() => setExportScope('all')}
+                      className={`flex-1 py-1.5 text-xs font-medium rounded-md transition-all duration-150 ${exportScope === 'all' ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500'}`}
+                    >
+                      Whole layout
+                    </button>
+                    <button
+                      onClick={() => setExportScope('selection')}
+                      disabled={selectedIds.size === 0}
+                      className={`flex-1 py-1.5 text-xs font-medium rounded-md transition-all duration-150 disabled:opacity-40 ${exportScope === 'selection' ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500'}`}
+                    >
+                      Selection ({selectedIds.size})
+                    </button>
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-500 mb-1.5 tracking-wide">PNG resolution</label>
+                  <div className="flex gap-1 p-0.5 bg-gray-100 rounded-lg">
+                    {[1, 2, 3, 4].map(n => (
+                      <button
+                        key={n}
+                        onClick={() => setExportScale(n)}
+                        className={`flex-1 py-1.5 text-xs font-medium rounded-md transition-all duration-150 ${exportScale === n ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500'}`}
+                      >
+                        {n}×
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <p className="text-[11px] text-gray-400 px-1">
+                  {selectedSite ? selectedSite.yardName : 'No site selected'} · {lastSync ? `last sync ${new Date(lastSync).toLocaleString()}` : 'never synced'}
+                </p>
+                {exportError && <p className="text-[12px] text-red-500 px-1">{exportError}</p>}
+              </div>
+              <div className="flex gap-2 mt-6">
+                <button onClick={() => handleExportImage('png')} className="flex-1 bg-gray-900 text-white py-2.5 rounded-xl hover:bg-gray-800 active:bg-black transition-colors text-sm font-medium">PNG</button>
+                <button onClick={() => handleExportImage('svg')} className="flex-1 bg-gray-900 text-white py-2.5 rounded-xl hover:bg-gray-800 active:bg-black transition-colors text-sm font-medium">SVG</button>
+                <button onClick={() => handleExportImage('print')} className="flex-1 bg-blue-500 text-white py-2.5 rounded-xl hover:bg-blue-600 active:bg-blue-700 transition-colors text-sm font-medium">Print</button>
+              </div>
+              <div className="flex gap-2 mt-2">
+                <button onClick={() => setShowExport(false)} className="flex-1 bg-gray-100 text-gray-600 py-2.5 rounded-xl hover:bg-gray-200 active:bg-gray-300 transition-colors text-sm font-medium">Done</button>
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+
       {/* Settings Modal */}
       {showSettings && (
         <>
           <div className="absolute inset-0 bg-black/10 backdrop-blur-sm" onClick={() => setShowSettings(false)} />
-          <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-[360px] bg-white/95 backdrop-blur-2xl rounded-2xl shadow-2xl shadow-black/10 overflow-hidden z-10 border border-white/60">
-            <div className="p-6">
+          <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-[360px] max-h-[85vh] flex flex-col bg-white/95 backdrop-blur-2xl rounded-2xl shadow-2xl shadow-black/10 overflow-hidden z-10 border border-white/60">
+            <div className="p-6 flex flex-col min-h-0">
               <h2 className="text-[17px] font-semibold text-gray-900 mb-5">Settings</h2>
-              <div className="space-y-4">
+              <div className="flex-1 min-h-0 overflow-y-auto -mx-1 px-1 space-y-4">
                 <div>
                   <label className="block text-xs font-medium text-gray-500 mb-1.5 tracking-wide">Server URL</label>
-                  <input
-                    type="url"
-                    value={serverUrl}
-                    onChange={e => setServerUrl(e.target.value)}
-                    placeholder="https://example.com/api"
-                    className={inputCls}
-                    autoFocus
-                  />
+                  <div className="flex gap-2">
+                    <input
+                      type="url"
+                      value={serverUrl}
+                      onChange={e => setServerUrl(e.target.value)}
+                      placeholder="https://example.com/api"
+                      className={inputCls + ' flex-1'}
+                      autoFocus
+                    />
+                    <button
+                      onClick={() => setShowDiscover(v => !v)}
+                      className={`px-3 py-2.5 rounded-xl transition-colors text-sm font-medium shrink-0 ${
+                        showDiscover ? 'bg-gray-200 text-gray-900' : 'bg-gray-100 text-gray-700 hover:bg-gray-200 active:bg-gray-300'
+                      }`}
+                    >
+                      Discover
+                    </button>
+                  </div>
                   <p className="text-[11px] text-gray-400 mt-1.5 px-1">
-                    The base URL for your inventory server.
+                    The base URL for your inventory server. Don't know it? Discover finds it on the network.
                   </p>
+                  {showDiscover && (
+                    <div className="mt-2 p-2.5 bg-gray-50 rounded-xl">
+                      <div className="flex gap-2">
+                        <input
+                          type="text"
+                          value={discoverRange}
+                          onChange={e => setDiscoverRange(e.target.value)}
+                          onKeyDown={e => e.key === 'Enter' && !discovering && handleDiscover()}
+                          placeholder="This network, or e.g. 10.0.4.0/24"
+                          className={inputCls + ' flex-1 text-[13px] py-1.5'}
+                        />
+                        <button
+                          onClick={handleDiscover}
+                          className="px-3 bg-blue-500 text-white rounded-lg hover:bg-blue-600 active:bg-blue-700 transition-colors text-xs font-medium shrink-0"
+                        >
+                          {discovering ? 'Stop' : 'Scan'}
+                        </button>
+                      </div>
+                      {discovering && (
+                        <p className="text-[11px] text-gray-400 mt-2 px-1">Looking for PinPro servers… this can take a few seconds.</p>
+                      )}
+                      {discoverError && (
+                        <p className="text-[11px] text-red-500 mt-2 px-1">{discoverError}</p>
+                      )}
+                      {discovered && (discovered.length === 0 ? (
+                        <p className="text-[11px] text-gray-400 mt-2 px-1">No PinPro servers found. Try another range, or ask for the server's address.</p>
+                      ) : (
+                        <div className="mt-2 space-y-2">
+                          {discovered.map(server => (
+                            <div key={server.url}>
+                              <p className="text-[11px] font-medium text-gray-500 px-1">{server.url}</p>
+                              {server.sites.map(site => (
+                                <button
+                                  key={site.siteId}
+                                  onClick={() => pickDiscovered(server, site)}
+                                  className="w-full text-left px-2.5 py-1.5 rounded-lg text-[13px] text-gray-700 hover:bg-white transition-colors"
+                                >
+                                  {site.yardName || site.shortCode}
+                                  {site.shortCode && site.yardName && <span className="text-gray-400"> ({site.shortCode})</span>}
+                                </button>
+                              ))}
+                            </div>
+                          ))}
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </div>
                 <div>
                   <label className="block text-xs font-medium text-gray-500 mb-1.5 tracking-wide">Site</label>
@@ -1426,8 +4137,57 @@ function App() {
                       ) : 'Fetch'}
                     </button>
                   </div>
+                  {sitesError ? (
+                    <p className="text-[11px] text-red-500 mt-1.5 px-1">{sitesError}. Test connection below shows where it fails.</p>
+                  ) : (
+                    <p className="text-[11px] text-gray-400 mt-1.5 px-1">
+                      {selectedSite ? `Selected: ${selectedSite.yardName}` : 'Enter server URL and click Fetch to load sites.'}
+                    </p>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-500 mb-1.5 tracking-wide">Server locale</label>
+                  <div className="grid grid-cols-2 gap-2">
+                    {([['country', 'Country', 'US'], ['language', 'Language', 'en']] as const).map(([key, label, example]) => (
+                      <label key={key} className="block">
+                        <span className="block text-[11px] text-gray-400 mb-1 px-1">{label}</span>
+                        <input
+                          type="text"
+                          value={locale[key]}
+                          onChange={e => setLocale(prev => ({ ...prev, [key]: e.target.value.trim() }))}
+                          onBlur={() => { if (!locale[key]) setLocale(prev => ({ ...prev, [key]: DEFAULT_LOCALE[key] })); }}
+                          placeholder={example}
+                          maxLength={8}
+                          className={inputCls}
+                        />
+                      </label>
+                    ))}
+                  </div>
+                  <p className="text-[11px] text-gray-400 mt-1.5 px-1">
+                    Sent with every location lookup, e.g. US and en.
+                  </p>
+                </div>
+                <div className="pt-4 border-t border-gray-100">
+                  <label className="block text-xs font-medium text-gray-500 mb-1.5 tracking-wide">User</label>
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={activeProfile.name}
+                      onChange={e => renameProfile(e.target.value)}
+                      onBlur={e => { if (!e.target.value.trim()) renameProfile('User'); }}
+                      placeholder="Your name"
+                      className={inputCls}
+                    />
+                    <button
+                      onClick={handleDeleteProfile}
+                      disabled={profiles.length <= 1 || isSyncing}
+                      className="px-3 py-2.5 bg-gray-100 text-red-500 rounded-xl hover:bg-red-50 disabled:opacity-40 disabled:cursor-not-allowed transition-colors text-sm font-medium shrink-0"
+                    >
+                      Remove
+                    </button>
+                  </div>
                   <p className="text-[11px] text-gray-400 mt-1.5 px-1">
-                    {selectedSite ? `Selected: ${selectedSite.yardName}` : 'Enter server URL and click Fetch to load sites.'}
+                    The login, paste renaming, stale and full limits and auto-sync belong to this user. Switch or add users from the dock.
                   </p>
                 </div>
                 <div>
@@ -1447,10 +4207,161 @@ function App() {
                     type="password"
                     value={password}
                     onChange={e => setPassword(e.target.value)}
-                    placeholder="Password"
+                    placeholder={passwordMode === 'prompt' ? 'Asked for when syncing' : 'Password'}
                     className={inputCls}
                     autoComplete="current-password"
                   />
+                  <label className="flex items-center gap-2 mt-2 px-1 text-[13px] text-gray-700 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={passwordMode === 'prompt'}
+                      onChange={e => setPasswordMode(e.target.checked ? 'prompt' : 'store')}
+                    />
+                    Don't save the password, ask for it when syncing
+                  </label>
+                  <div className="flex items-center justify-between gap-2 mt-1.5 px-1">
+                    <p className="text-[11px] text-gray-400">
+                      {passwordMode === 'prompt'
+                        ? 'The password is kept only until the app closes.'
+                        : 'Saved in the system keychain (encrypted in the browser).'}
+                    </p>
+                    <button
+                      onClick={forgetCredentials}
+                      disabled={!username && !password}
+                      className="text-[11px] font-medium text-red-500 hover:text-red-600 disabled:opacity-40 disabled:cursor-not-allowed shrink-0"
+                    >
+                      Forget credentials
+                    </button>
+                  </div>
+                </div>
+                <div>
+                  <button
+                    onClick={testConnection}
+                    disabled={!serverUrl.trim() || testingConnection}
+                    className="w-full bg-gray-100 text-gray-700 py-2 rounded-xl hover:bg-gray-200 active:bg-gray-300 disabled:opacity-40 disabled:cursor-not-allowed transition-colors text-sm font-medium"
+                  >
+                    {testingConnection ? 'Testing…' : 'Test connection'}
+                  </button>
+                  {diagSteps && (
+                    <div className="mt-2 p-2.5 bg-gray-50 rounded-xl space-y-1.5">
+                      {diagSteps.map(st => (
+                        <div key={st.id} className="flex items-start gap-2">
+                          <span className={`w-4 h-4 mt-px rounded-full shrink-0 flex items-center justify-center text-[10px] font-bold text-white ${
+                            st.state === 'pass' ? 'bg-green-500'
+                            : st.state === 'fail' ? 'bg-red-500'
+                            : st.state === 'running' ? 'border-2 border-blue-500 border-t-transparent animate-spin'
+                            : 'bg-gray-300'
+                          }`}>
+                            {st.state === 'pass' ? '✓' : st.state === 'fail' ? '×' : st.state === 'skip' ? '–' : ''}
+                          </span>
+                          <div className="min-w-0 flex-1">
+                            <div className="flex items-baseline gap-2">
+                              <span className={`text-[13px] ${st.state === 'skip' || st.state === 'pending' ? 'text-gray-400' : 'text-gray-700'}`}>{st.label}</span>
+                              <span className="ml-auto text-[11px] tabular-nums text-gray-400 shrink-0">
+                                {st.httpStatus !== undefined && `HTTP ${st.httpStatus}`}
+                                {st.httpStatus !== undefined && st.ms !== undefined && ' · '}
+                                {st.ms !== undefined && `${st.ms} ms`}
+                              </span>
+                            </div>
+                            {st.detail && (
+                              <p className={`text-[11px] break-words ${st.state === 'fail' ? 'text-red-500' : 'text-gray-400'}`}>{st.detail}</p>
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-500 mb-1.5 tracking-wide">Rename on paste / duplicate</label>
+                  <select
+                    value={renameRule === null ? '' : String(renameRule)}
+                    onChange={e => setRenameRule(e.target.value === '' ? null : Number(e.target.value))}
+                    className={inputCls}
+                  >
+                    <option value="">Keep names</option>
+                    <option value="0">Increment last part</option>
+                    {[1, 2, 3, 4, 5].map(n => (
+                      <option key={n} value={String(n)}>Increment part {n}</option>
+                    ))}
+                  </select>
+                  <p className="text-[11px] text-gray-400 mt-1.5 px-1">
+                    Parts are separated by spaces, e.g. part 2 turns 1-WD1 R1 L1 A into 1-WD1 R2 L1 A.
+                  </p>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-500 mb-1.5 tracking-wide">Auto-sync</label>
+                  <select
+                    value={autoSync === null ? '' : String(autoSync)}
+                    onChange={e => setAutoSync(e.target.value === '' ? null : Number(e.target.value))}
+                    className={inputCls}
+                  >
+                    <option value="">Off</option>
+                    {AUTO_SYNC_OPTIONS.map(m => (
+                      <option key={m} value={String(m)}>Every {plural(m, 'minute')}</option>
+                    ))}
+                  </select>
+                  <p className="text-[11px] text-gray-400 mt-1.5 px-1">
+                    Re-checks every location while the app is open. You get a notification when a location becomes empty or occupied.
+                  </p>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-500 mb-1.5 tracking-wide">Sync requests</label>
+                  <div className="grid grid-cols-3 gap-2">
+                    {([
+                      ['concurrency', 'At once', 1, 20, 1],
+                      ['timeoutMs', 'Timeout (s)', 1, 120, 1000],
+                      ['retries', 'Retries', 0, 5, 1],
+                    ] as const).map(([key, label, min, max, unit]) => (
+                      <label key={key} className="block">
+                        <span className="block text-[11px] text-gray-400 mb-1 px-1">{label}</span>
+                        <input
+                          type="number"
+                          min={min}
+                          max={max}
+                          value={syncSettings[key] / unit}
+                          onChange={e => {
+                            const v = Math.min(max, Math.max(min, Math.round(Number(e.target.value) || min)));
+                            setSyncSettings(prev => ({ ...prev, [key]: v * unit }));
+                          }}
+                          className={inputCls}
+                        />
+                      </label>
+                    ))}
+                  </div>
+                  <p className="text-[11px] text-gray-400 mt-1.5 px-1">
+                    Connection failures and timeouts are retried with increasing delays.
+                  </p>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-500 mb-1.5 tracking-wide">Count as full at</label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={fullAt ?? ''}
+                    onChange={e => setFullAt(Number(e.target.value) > 0 ? Math.floor(Number(e.target.value)) : null)}
+                    placeholder="Off"
+                    className={inputCls}
+                  />
+                  <p className="text-[11px] text-gray-400 mt-1.5 px-1">
+                    Occupied locations with at least this many items are shown as full. Leave empty to turn off.
+                  </p>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-500 mb-1.5 tracking-wide">Mark results stale after</label>
+                  <select
+                    value={staleHours === null ? '' : String(staleHours)}
+                    onChange={e => setStaleHours(e.target.value === '' ? null : Number(e.target.value))}
+                    className={inputCls}
+                  >
+                    <option value="">Never</option>
+                    {STALE_OPTIONS.map(h => (
+                      <option key={h} value={String(h)}>{h < 1 ? plural(h * 60, 'minute') : h < 24 ? plural(h, 'hour') : plural(h / 24, 'day')}</option>
+                    ))}
+                  </select>
+                  <p className="text-[11px] text-gray-400 mt-1.5 px-1">
+                    Stale locations show a faded status marker until they are synced again.
+                  </p>
                 </div>
               </div>
               <div className="flex gap-2 mt-6">
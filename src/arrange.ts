@@ -0,0 +1,85 @@
+import type { LocationItem } from './types';
+import { locRect } from './geometry';
+
+export type AlignMode = 'left' | 'hcenter' | 'right' | 'top' | 'vcenter' | 'bottom';
+export type Positions = Map<number, { x: number; y: number }>;
+
+export const ALIGN_LABELS: Record<AlignMode, string> = {
+  left: 'Align left',
+  hcenter: 'Align centre',
+  right: 'Align right',
+  top: 'Align top',
+  vcenter: 'Align middle',
+  bottom: 'Align bottom',
+};
+
+const snapTo = (v: number, grid: number) => Math.round(v / grid) * grid;
+const ceilTo = (v: number, grid: number) => Math.ceil(v / grid) * grid;
+
+/** Line the boxes up against the outermost edge (or the shared centre) of the selection. */
+export function alignLocations(locs: LocationItem[], mode: AlignMode, grid: number): Positions {
+  const out: Positions = new Map();
+  if (locs.length === 0) return out;
+  const rects = locs.map(locRect);
+  const left = Math.min(...rects.map(r => r.x));
+  const right = Math.max(...rects.map(r => r.x + r.w));
+  const top = Math.min(...rects.map(r => r.y));
+  const bottom = Math.max(...rects.map(r => r.y + r.h));
+  const cx = (left + right) / 2, cy = (top + bottom) / 2;
+
+  locs.forEach((l, i) => {
+    const r = rects[i];
+    let { x, y } = l;
+    if (mode === 'left') x = left;
+    else if (mode === 'right') x = right - r.w;
+    else if (mode === 'hcenter') x = cx - r.w / 2;
+    else if (mode === 'top') y = top;
+    else if (mode === 'bottom') y = bottom - r.h;
+    else y = cy - r.h / 2;
+    out.set(l.id, { x: snapTo(x, grid), y: snapTo(y, grid) });
+  });
+  return out;
+}
+
+/** Keep the first and last box in place and spread the rest with equal gaps between them. */
+export function distributeLocations(locs: LocationItem[], axis: 'h' | 'v', grid: number): Positions {
+  const out: Positions = new Map();
+  if (locs.length < 3) return out;
+  const pos = (l: LocationItem) => axis === 'h' ? l.x : l.y;
+  const size = (l: LocationItem) => axis === 'h' ? locRect(l).w : locRect(l).h;
+  const sorted = [...locs].sort((a, b) => pos(a) - pos(b));
+
+  const first = sorted[0], last = sorted[sorted.length - 1];
+  const span = pos(last) + size(last) - pos(first);
+  const total = sorted.reduce((sum, l) => sum + size(l), 0);
+  const gap = (span - total) / (sorted.length - 1);
+
+  let cursor = pos(first);
+  sorted.forEach(l => {
+    const p = snapTo(cursor, grid);
+    out.set(l.id, axis === 'h' ? { x: p, y: l.y } : { x: l.x, y: p });
+    cursor += size(l) + gap;
+  });
+  return out;
+}
+
+/**
+ * Lay the boxes out in reading order (top to bottom, then left to right) as a
+ * grid of `columns`, with `spacing` empty grid cells between neighbours,
+ * starting at the top-left of the current selection.
+ */
+export function arrangeAsGrid(locs: LocationItem[], columns: number, spacing: number, grid: number): Positions {
+  const out: Positions = new Map();
+  if (locs.length === 0) return out;
+  const cols = Math.max(1, Math.floor(columns));
+  const sorted = [...locs].sort((a, b) => a.y - b.y || a.x - b.x);
+  const ox = snapTo(Math.min(...locs.map(l => l.x)), grid);
+  const oy = snapTo(Math.min(...locs.map(l => l.y)), grid);
+  const cellW = ceilTo(Math.max(...locs.map(l => locRect(l).w)), grid) + Math.max(0, spacing) * grid;
+  const cellH = ceilTo(Math.max(...locs.map(l => locRect(l).h)), grid) + Math.max(0, spacing) * grid;
+
+  sorted.forEach((l, i) => {
+    out.set(l.id, { x: ox + (i % cols) * cellW, y: oy + Math.floor(i / cols) * cellH });
+  });
+  return out;
+}
@@ -0,0 +1,67 @@
+import type { InventoryItem } from './types';
+
+/** One recorded action: who did what to which layout, and when. */
+export type AuditEntry = {
+  id: number;
+  at: number;
+  /** Profile name at the time. */
+  user: string;
+  /** Layout name at the time. */
+  layout: string;
+  action: string;
+};
+
+export const MAX_AUDIT_ENTRIES = 5000;
+
+// Names listed per part of an edit before "+N more"
+const MAX_NAMED = 5;
+
+/** How an item is named in the log: location name, text, zone label, or its kind. */
+function itemName(it: InventoryItem): string {
+  if (it.type === 'location') return it.name;
+  if (it.type === 'text') return `"${it.content.length > 30 ? it.content.slice(0, 29) + '…' : it.content}"`;
+  if (it.type === 'zone') return it.label ? `zone ${it.label}` : 'zone';
+  return it.arrow ? 'arrow' : it.type;
+}
+
+function nameList(items: InventoryItem[]): string {
+  const names = items.slice(0, MAX_NAMED).map(itemName).join(', ');
+  return items.length > MAX_NAMED ? `${names} +${items.length - MAX_NAMED} more` : names;
+}
+
+/**
+ * The log line for an edit: its label plus the items it added, removed and
+ * changed, by name, so the log can say which locations were deleted.
+ */
+export function describeEdit(label: string, before: InventoryItem[], after: InventoryItem[]): string {
+  const was = new Map(before.map(it => [it.id, it]));
+  const now = new Set(after.map(it => it.id));
+  const added = after.filter(it => !was.has(it.id));
+  const removed = before.filter(it => !now.has(it.id));
+  const changed = after.filter(it => was.has(it.id) && was.get(it.id) !== it);
+  const parts = [
+    removed.length > 0 && `removed ${nameList(removed)}`,
+    added.length > 0 && `added ${nameList(added)}`,
+    changed.length > 0 && `changed ${nameList(changed)}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? `${label}: ${parts.join('; ')}` : label;
+}
+
+// Quote when needed, and stop spreadsheets treating a leading =, +, - or @ as a formula
+function csvCell(s: string): string {
+  const safe = /^[=+\-@]/.test(s) ? `'${s}` : s;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/** The log as CSV, oldest first, with ISO (UTC) times. */
+export function auditCsv(entries: AuditEntry[]): string {
+  const rows = entries.map(e => [new Date(e.at).toISOString(), e.user, e.layout, e.action]);
+  return [['Time', 'User', 'Layout', 'Action'], ...rows].map(r => r.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+/** Entries whose user, layout or action contains `query` (any case). */
+export function filterAudit(entries: AuditEntry[], query: string): AuditEntry[] {
+  const q = query.trim().toLowerCase();
+  if (!q) return entries;
+  return entries.filter(e => `${e.user}\n${e.layout}\n${e.action}`.toLowerCase().includes(q));
+}
@@ -0,0 +1,90 @@
+import type { InventoryItem } from './types';
+import { fileItems, isObj, readItemArrays } from './layoutFile';
+import { newId } from './layouts';
+import { itemBounds, moveItem } from './geometry';
+
+export const CLIPBOARD_FORMAT = 'inventory-clipboard';
+
+/**
+ * Which space-separated part of a location name to increment on paste:
+ * null = off, 0 = the last part, n = the nth part from the left.
+ */
+export type RenameRule = number | null;
+
+/** JSON placed on the system clipboard so items can move between windows. */
+export function serializeClipboard(items: InventoryItem[]): string {
+  return JSON.stringify({
+    format: CLIPBOARD_FORMAT,
+    locations: items.filter(it => it.type === 'location'),
+    texts: items.filter(it => it.type === 'text'),
+    lines: items.filter(it => it.type === 'line'),
+    polylines: items.filter(it => it.type === 'polyline'),
+    zones: items.filter(it => it.type === 'zone'),
+    order: items.map(it => it.id),
+  });
+}
+
+/** Items from clipboard text, or null if the text is not something we copied. */
+export function parseClipboard(text: string): InventoryItem[] | null {
+  try {
+    const raw: unknown = JSON.parse(text);
+    if (!isObj(raw) || raw.format !== CLIPBOARD_FORMAT) return null;
+    return fileItems(readItemArrays(raw));
+  } catch { return null; }
+}
+
+function bumpLetters(s: string): string {
+  const chars = s.split('');
+  for (let i = chars.length - 1; i >= 0; i--) {
+    const c = chars[i];
+    if (c === 'Z' || c === 'z') { chars[i] = c === 'Z' ? 'A' : 'a'; continue; }
+    chars[i] = String.fromCharCode(c.charCodeAt(0) + 1);
+    return chars.join('');
+  }
+  return (s[0] === 'z' ? 'a' : 'A') + chars.join('');
+}
+
+/**
+ * Increment the trailing number or letter(s) of one part of a name, keeping
+ * zero padding: `1-WD1 R1 L1 A` with part 2 becomes `1-WD1 R2 L1 A`,
+ * `BAY 09` with the last part becomes `BAY 10`, `A` becomes `B`, `Z` becomes `AA`.
+ */
+export function incrementName(name: string, rule: RenameRule): string {
+  if (rule === null) return name;
+  const parts = name.split(' ');
+  const idx = rule === 0 ? parts.length - 1 : rule - 1;
+  const part = parts[idx];
+  if (!part) return name;
+
+  const num = part.match(/^(.*?)(\d+)$/);
+  if (num) {
+    const next = String(Number(num[2]) + 1).padStart(num[2].length, '0');
+    parts[idx] = num[1] + next;
+  } else {
+    const letters = part.match(/^(.*?)([A-Za-z]+)$/);
+    if (!letters) return name;
+    parts[idx] = letters[1] + bumpLetters(letters[2]);
+  }
+  return parts.join(' ');
+}
+
+/** Top-left corner of the items' bounding box. */
+export function itemsOrigin(items: InventoryItem[]): { x: number; y: number } {
+  let x = Infinity, y = Infinity;
+  items.forEach(it => {
+    const b = itemBounds(it, () => 0);
+    x = Math.min(x, b.x); y = Math.min(y, b.y);
+  });
+  return { x: x === Infinity ? 0 : x, y: y === Infinity ? 0 : y };
+}
+
+/** Copies moved by (dx, dy) with new ids, and location names renamed by `rule`. */
+export function copyItems(items: InventoryItem[], dx: number, dy: number, rule: RenameRule): InventoryItem[] {
+  return items.map(it => {
+    const moved = { ...moveItem(it, dx, dy), id: newId() };
+    if (moved.type !== 'location') return moved;
+    // A renamed copy is a different tag, so its last sync result does not apply
+    const name = incrementName(moved.name, rule);
+    return { ...moved, name, status: name === moved.name ? moved.status : 'unchecked' };
+  });
+}
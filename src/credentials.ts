@@ -0,0 +1,142 @@
+import { invoke } from '@tauri-apps/api/core';
+
+const isTauri = '__TAURI_INTERNALS__' in window;
+
+/** Keep the password between sessions, or ask for it at sync time and only hold it in memory. */
+export type PasswordMode = 'store' | 'prompt';
+
+// Before profiles: one password mode and password for everyone
+const MODE_KEY = 'inventory-password-mode';
+const LEGACY_KEY = 'inventory-password';
+const SHARED_SEALED_KEY = 'inventory-password-sealed';
+const SHARED_ACCOUNT = 'pinpro';
+
+const SEALED_PREFIX = 'inventory-password-sealed:';
+
+const KEY_DB = 'inventory-ui-keys';
+const KEY_STORE = 'keys';
+const KEY_ID = 'credentials';
+
+/** The password mode from before profiles, for the first profile. */
+export function loadLegacyPasswordMode(): PasswordMode {
+  try { return localStorage.getItem(MODE_KEY) === 'prompt' ? 'prompt' : 'store'; }
+  catch { return 'store'; }
+}
+
+// Web fallback: AES-GCM with a non-extractable key that lives in IndexedDB,
+// so the sealed value in localStorage can't be read by copying it elsewhere.
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function webKey(): Promise<CryptoKey> {
+  const open = indexedDB.open(KEY_DB, 1);
+  open.onupgradeneeded = () => open.result.createObjectStore(KEY_STORE);
+  const db = await request(open);
+  try {
+    const found = await request(db.transaction(KEY_STORE, 'readonly').objectStore(KEY_STORE).get(KEY_ID));
+    if (found instanceof CryptoKey) return found;
+    const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+    await request(db.transaction(KEY_STORE, 'readwrite').objectStore(KEY_STORE).put(key, KEY_ID));
+    return key;
+  } finally {
+    db.close();
+  }
+}
+
+const toBase64 = (b: Uint8Array) => btoa(String.fromCharCode(...b));
+const fromBase64 = (s: string) => Uint8Array.from(atob(s), c => c.charCodeAt(0));
+
+async function seal(secret: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, await webKey(), new TextEncoder().encode(secret));
+  return JSON.stringify({ iv: toBase64(iv), data: toBase64(new Uint8Array(data)) });
+}
+
+async function unseal(sealed: string): Promise<string> {
+  const { iv, data } = JSON.parse(sealed) as { iv: string; data: string };
+  const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, await webKey(), fromBase64(data));
+  return new TextDecoder().decode(plain);
+}
+
+async function loadSealed(key: string): Promise<string> {
+  try {
+    const sealed = localStorage.getItem(key);
+    return sealed ? await unseal(sealed) : '';
+  } catch { return ''; }
+}
+
+async function keyringGet(account: string): Promise<string> {
+  if (!isTauri) return '';
+  try { return await invoke<string | null>('get_secret', { account }) ?? ''; }
+  catch { return ''; }
+}
+
+async function keyringDelete(account: string) {
+  if (!isTauri) return;
+  try { await invoke('delete_secret', { account }); } catch { /* silent */ }
+}
+
+/**
+ * Keep `account`'s password in the OS keyring, or sealed in localStorage in
+ * the browser and when the keyring is unavailable. An empty password removes it.
+ */
+export async function storePassword(account: string, password: string) {
+  if (!password) return forgetPassword(account);
+  if (isTauri) {
+    try {
+      await invoke('set_secret', { account, secret: password });
+      localStorage.removeItem(SEALED_PREFIX + account);
+      return;
+    } catch { /* fall back to the sealed copy */ }
+  }
+  try { localStorage.setItem(SEALED_PREFIX + account, await seal(password)); } catch { /* silent */ }
+}
+
+/** Remove `account`'s stored password from every place it may be kept. */
+export async function forgetPassword(account: string) {
+  try { localStorage.removeItem(SEALED_PREFIX + account); } catch { /* silent */ }
+  await keyringDelete(account);
+}
+
+/**
+ * Take the single password kept before profiles (in plain text, or later in
+ * the keyring or sealed) and wipe every copy. Null if there was none.
+ */
+async function takeSharedPassword(): Promise<string | null> {
+  let plain: string | null = null, hasSealed = false;
+  try {
+    plain = localStorage.getItem(LEGACY_KEY);
+    hasSealed = localStorage.getItem(SHARED_SEALED_KEY) !== null;
+  } catch { /* silent */ }
+  const sealed = hasSealed ? await loadSealed(SHARED_SEALED_KEY) : '';
+  const kept = await keyringGet(SHARED_ACCOUNT);
+  if (plain === null && !hasSealed && !kept) return null;
+  try {
+    localStorage.removeItem(LEGACY_KEY);
+    localStorage.removeItem(SHARED_SEALED_KEY);
+    localStorage.removeItem(MODE_KEY);
+  } catch { /* silent */ }
+  if (kept) await keyringDelete(SHARED_ACCOUNT);
+  return plain || kept || sealed;
+}
+
+/**
+ * `account`'s stored password, or '' when there is none. The first load
+ * after upgrading adopts the old shared password, moving it to secure
+ * storage (unless `mode` is 'prompt'); it is returned either way so this
+ * session can use it.
+ */
+export async function loadPassword(account: string, mode: PasswordMode): Promise<string> {
+  const shared = await takeSharedPassword();
+  if (shared !== null) {
+    if (mode === 'store' && shared) await storePassword(account, shared);
+    return shared;
+  }
+  if (mode === 'prompt') return '';
+  return (await keyringGet(account)) || loadSealed(SEALED_PREFIX + account);
+}
@@ -0,0 +1,182 @@
+export type CsvRow = {
+  line: number;
+  name: string;
+  x?: number;
+  y?: number;
+  row?: number;
+  column?: number;
+};
+
+export type AutoLayout = {
+  /** Locations stacked in each column before starting the next one. */
+  rowsPerColumn: number;
+  /** Distance between rows, in grid cells. */
+  rowSpacing: number;
+  /** Distance between columns, in grid cells. */
+  columnSpacing: number;
+};
+
+export type PlacedRow = CsvRow & {
+  px: number;
+  py: number;
+  duplicate: boolean;
+  missingPrefix: boolean;
+};
+
+export const DEFAULT_AUTO_LAYOUT: AutoLayout = { rowsPerColumn: 10, rowSpacing: 2, columnSpacing: 5 };
+export const REQUIRED_PREFIX = '1-';
+
+const NAME_HEADERS = ['name', 'location', 'locationtag', 'location tag', 'tag', 'bin'];
+const X_HEADERS = ['x'];
+const Y_HEADERS = ['y'];
+const ROW_HEADERS = ['row'];
+const COLUMN_HEADERS = ['column', 'col'];
+
+/** Pick tab, semicolon or comma, whichever appears most on the first line. */
+function detectDelimiter(text: string): string {
+  const first = text.split(/\r?\n/, 1)[0] ?? '';
+  const counts = ['\t', ';', ','].map(d => ({ d, n: first.split(d).length - 1 }));
+  counts.sort((a, b) => b.n - a.n);
+  return counts[0].n > 0 ? counts[0].d : ',';
+}
+
+/** Split delimited text into rows of fields, honouring double-quoted fields. */
+export function parseDelimited(text: string, delimiter = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field); field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field); field = '';
+      rows.push(row); row = [];
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) { row.push(field); rows.push(row); }
+
+  return rows.filter(r => r.some(f => f.trim() !== ''));
+}
+
+function optNum(v: string | undefined): number | undefined {
+  if (v === undefined || v.trim() === '') return undefined;
+  const n = Number(v.trim());
+  return Number.isFinite(n) ? n : undefined;
+}
+
+export type CsvRead = {
+  rows: CsvRow[];
+  /** Whether the first line was taken as column names. */
+  hasHeader: boolean;
+};
+
+/**
+ * Guess whether an unrecognised first row is a header: it lacks the location
+ * prefix that the rows below carry, or names the columns where they hold numbers.
+ */
+function looksLikeHeader(first: string[], rest: string[][]): boolean {
+  if (rest.length === 0) return false;
+  const name = (first[0] ?? '').trim();
+  if (!name.startsWith(REQUIRED_PREFIX) && rest.some(r => (r[0] ?? '').trim().startsWith(REQUIRED_PREFIX))) return true;
+  // A column that is numeric in every data row but not in the first
+  return first.some((f, i) => i > 0 && optNum(f) === undefined && f.trim() !== ''
+    && rest.every(r => optNum(r[i]) !== undefined));
+}
+
+/**
+ * Read location rows from a CSV/TSV export. A first row naming a location
+ * column is a header; one that merely looks like a header (see looksLikeHeader)
+ * is too, with the name in its first column. `header` overrides the guess.
+ */
+export function readLocationCsv(text: string, header?: boolean): CsvRead {
+  const table = parseDelimited(text.replace(/^\uFEFF/, ''));
+  if (table.length === 0) return { rows: [], hasHeader: false };
+
+  const names = table[0].map(h => h.trim().toLowerCase());
+  const find = (list: string[]) => names.findIndex(h => list.includes(h));
+  const nameCol = find(NAME_HEADERS);
+  const hasHeader = header ?? (nameCol !== -1 || looksLikeHeader(table[0], table.slice(1)));
+  const col = {
+    name: hasHeader && nameCol !== -1 ? nameCol : 0,
+    x: hasHeader ? find(X_HEADERS) : -1,
+    y: hasHeader ? find(Y_HEADERS) : -1,
+    row: hasHeader ? find(ROW_HEADERS) : -1,
+    column: hasHeader ? find(COLUMN_HEADERS) : -1,
+  };
+
+  const out: CsvRow[] = [];
+  table.slice(hasHeader ? 1 : 0).forEach((r, i) => {
+    const name = (r[col.name] ?? '').trim();
+    if (!name) return;
+    out.push({
+      line: i + (hasHeader ? 2 : 1),
+      name,
+      x: col.x >= 0 ? optNum(r[col.x]) : undefined,
+      y: col.y >= 0 ? optNum(r[col.y]) : undefined,
+      row: col.row >= 0 ? optNum(r[col.row]) : undefined,
+      column: col.column >= 0 ? optNum(r[col.column]) : undefined,
+    });
+  });
+  return { rows: out, hasHeader };
+}
+
+/**
+ * Work out where each row lands and flag problems for the preview.
+ * Explicit x/y win, then 1-based row/column cells, then the auto-layout,
+ * which continues from `origin` in columns of `rowsPerColumn`.
+ * Positions are unsnapped; the caller snaps them onto the grid.
+ */
+export function placeRows(
+  rows: CsvRow[],
+  layout: AutoLayout,
+  grid: number,
+  origin: { x: number; y: number },
+  existingNames: Set<string>,
+): PlacedRow[] {
+  const seen = new Set<string>();
+  const stepY = grid * Math.max(1, layout.rowSpacing);
+  const stepX = grid * Math.max(1, layout.columnSpacing);
+  const perCol = Math.max(1, Math.floor(layout.rowsPerColumn));
+  // Auto-placed rows start in the first column not claimed by a row/column cell
+  const firstAutoCol = rows.reduce((m, r) =>
+    r.row !== undefined && r.column !== undefined && (r.x === undefined || r.y === undefined) ? Math.max(m, r.column) : m, 0);
+  let auto = 0;
+
+  return rows.map(r => {
+    let px: number, py: number;
+    if (r.x !== undefined && r.y !== undefined) {
+      px = r.x; py = r.y;
+    } else if (r.row !== undefined && r.column !== undefined) {
+      px = origin.x + (r.column - 1) * stepX;
+      py = origin.y + (r.row - 1) * stepY;
+    } else {
+      px = origin.x + (firstAutoCol + Math.floor(auto / perCol)) * stepX;
+      py = origin.y + (auto % perCol) * stepY;
+      auto++;
+    }
+
+    const key = r.name.toUpperCase();
+    const duplicate = seen.has(key) || existingNames.has(key);
+    seen.add(key);
+
+    return {
+      ...r,
+      px,
+      py,
+      duplicate,
+      missingPrefix: !r.name.startsWith(REQUIRED_PREFIX),
+    };
+  });
+}
@@ -0,0 +1,140 @@
+import { parseSites, parseStockItems, PinProClient, UnreachableError, type Locale, type SiteCheckResult } from './pinpro';
+
+export type StepId = 'url' | 'host' | 'sites' | 'xml' | 'auth';
+
+export type StepState = 'pending' | 'running' | 'pass' | 'fail' | 'skip';
+
+/** One step of a connection test, as far as it has got. */
+export type DiagnosticStep = {
+  id: StepId;
+  label: string;
+  state: StepState;
+  /** How long the step took. */
+  ms?: number;
+  httpStatus?: number;
+  detail?: string;
+};
+
+const STEPS: Array<{ id: StepId; label: string }> = [
+  { id: 'url', label: 'Server URL' },
+  { id: 'host', label: 'Host reachable' },
+  { id: 'sites', label: 'Sites endpoint' },
+  { id: 'xml', label: 'Sites list' },
+  { id: 'auth', label: 'Sign-in' },
+];
+
+// A location tag that shouldn't exist, so the sign-in probe never returns real stock
+const PROBE_TAG = 'CONNECTION-TEST';
+
+export const initialSteps = (): DiagnosticStep[] => STEPS.map(s => ({ ...s, state: 'pending' }));
+
+type Outcome = Pick<DiagnosticStep, 'httpStatus' | 'detail'> & { ok: boolean | 'skip' };
+
+const ok2xx = (status: number) => status >= 200 && status < 300;
+
+/**
+ * Test the connection one step at a time, reporting each step through
+ * `onStep` as it starts and finishes. Stops at the first failure and marks
+ * the rest skipped. Returns the server's sites when they could be read.
+ */
+export async function runDiagnostics(
+  input: { serverUrl: string; siteId: number | null; username: string; password: string; locale: Locale },
+  onStep: (step: DiagnosticStep) => void,
+  timeoutMs: number,
+  signal: AbortSignal,
+): Promise<SiteCheckResult[] | null> {
+  let base: URL | null = null;
+  let sitesBody = '';
+  let sites: SiteCheckResult[] | null = null;
+  const client = new PinProClient({
+    baseUrl: input.serverUrl,
+    credentials: { username: input.username.trim(), password: input.password.trim() },
+    locale: input.locale,
+  });
+
+  const checks: Record<StepId, (s: AbortSignal) => Promise<Outcome>> = {
+    url: async () => {
+      try { base = new URL(input.serverUrl.trim()); } catch {
+        return { ok: false, detail: 'Not a valid URL. It should look like http://192.168.0.100' };
+      }
+      if (base.protocol !== 'http:' && base.protocol !== 'https:') {
+        return { ok: false, detail: `Use http:// or https://, not ${base.protocol}//` };
+      }
+      return { ok: true, detail: base.origin };
+    },
+    host: async s => {
+      // Any HTTP answer at all means the name resolved and the server is listening
+      const res = await client.request(`${base!.origin}/`, false, s);
+      return { ok: true, httpStatus: res.status, detail: `${base!.host} answered` };
+    },
+    sites: async s => {
+      const res = await client.request(client.url('sites'), false, s);
+      sitesBody = res.body;
+      if (!ok2xx(res.status)) {
+        return {
+          ok: false,
+          httpStatus: res.status,
+          detail: res.status === 404 ? 'No PinPro service at this address' : 'The server returned an error',
+        };
+      }
+      return { ok: true, httpStatus: res.status };
+    },
+    xml: async () => {
+      sites = parseSites(sitesBody);
+      return { ok: true, detail: sites.map(x => x.yardName || x.shortCode).join(', ') };
+    },
+    auth: async s => {
+      if (!input.username.trim() || !input.password.trim()) {
+        return { ok: 'skip', detail: 'Enter a username and password to test signing in' };
+      }
+      const siteId = input.siteId ?? sites![0].siteId;
+      const res = await client.request(client.locationPartsUrl(PROBE_TAG, siteId), true, s);
+      if (res.status === 401 || res.status === 403) {
+        return { ok: false, httpStatus: res.status, detail: 'The username or password was rejected' };
+      }
+      // An unknown tag is the expected answer for a signed-in probe
+      if (res.status === 404) return { ok: true, httpStatus: res.status, detail: 'Credentials accepted' };
+      if (!ok2xx(res.status)) return { ok: false, httpStatus: res.status, detail: 'The server returned an error' };
+      try {
+        parseStockItems(res.body);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return { ok: false, httpStatus: res.status, detail: `Answered, but not as expected: ${message}` };
+      }
+      return { ok: true, httpStatus: res.status, detail: 'Credentials accepted' };
+    },
+  };
+
+  let failed = false;
+  for (const { id, label } of STEPS) {
+    if (failed || signal.aborted) {
+      onStep({ id, label, state: 'skip' });
+      continue;
+    }
+    onStep({ id, label, state: 'running' });
+    const ctrl = new AbortController();
+    const timer = setTimeout(() => ctrl.abort(new DOMException('Timed out', 'TimeoutError')), timeoutMs);
+    const onAbort = () => ctrl.abort(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    const started = performance.now();
+    let out: Outcome;
+    try {
+      out = await checks[id](ctrl.signal);
+    } catch (error) {
+      out = {
+        ok: false,
+        detail: error instanceof UnreachableError
+          ? `No answer: ${error.message}`
+          : error instanceof Error ? error.message : String(error),
+      };
+    } finally {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', onAbort);
+    }
+    const ms = Math.round(performance.now() - started);
+    const state: StepState = out.ok === 'skip' ? 'skip' : out.ok ? 'pass' : 'fail';
+    onStep({ id, label, state, ms, httpStatus: out.httpStatus, detail: out.detail });
+    failed = state === 'fail';
+  }
+  return sites;
+}
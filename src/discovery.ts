@@ -0,0 +1,92 @@
+import { invoke } from '@tauri-apps/api/core';
+import { defaultTransport, parseSites, type SiteCheckResult } from './pinpro';
+import { runQueue } from './syncQueue';
+
+const isTauri = '__TAURI_INTERNALS__' in window;
+
+/** A host that answered `/pinpro/sites` with a usable sites list. */
+export type DiscoveredServer = {
+  url: string;
+  sites: SiteCheckResult[];
+};
+
+// Most hosts on a yard network don't answer port 80 at all, so keep the wait short
+const TIMEOUT_MS = 1500;
+const CONCURRENCY = 64;
+// The browser build goes through the dev proxy, which shouldn't get flooded
+const WEB_CONCURRENCY = 16;
+const MIN_PREFIX = 20;
+
+/** Host addresses in `a.b.c.d/n` (a bare address means its /24), without network and broadcast. */
+export function cidrHosts(cidr: string): string[] {
+  const [ip, bitsRaw = '24'] = cidr.trim().split('/');
+  const parts = ip.trim().split('.').map(Number);
+  if (parts.length !== 4 || parts.some(p => !Number.isInteger(p) || p < 0 || p > 255) || !/^[\d.]+$/.test(ip.trim())) {
+    throw new Error(`"${ip.trim()}" is not an IPv4 address`);
+  }
+  const bits = Number(bitsRaw);
+  if (!Number.isInteger(bits) || bits < MIN_PREFIX || bits > 32) {
+    throw new Error(`Use a range from /${MIN_PREFIX} to /32, e.g. 192.168.0.0/24`);
+  }
+  const addr = parts.reduce((n, p) => n * 256 + p, 0);
+  const size = 2 ** (32 - bits);
+  const network = addr - (addr % size);
+  const out: string[] = [];
+  for (let i = size > 2 ? 1 : 0; i < (size > 2 ? size - 1 : size); i++) {
+    const n = network + i;
+    out.push([24, 16, 8, 0].map(s => Math.floor(n / 2 ** s) % 256).join('.'));
+  }
+  return out;
+}
+
+function readSites(url: string, xml: string): DiscoveredServer | null {
+  try { return { url, sites: parseSites(xml) }; } catch { return null; }
+}
+
+/**
+ * Find PinPro servers in `cidr`, or on this computer's /24 when it's empty.
+ * The desktop build scans from Rust; the browser can't see the local
+ * network, so there a range is required and each host goes through the proxy.
+ * Aborting `signal` stops either scan.
+ */
+export async function discoverServers(cidr: string, signal: AbortSignal): Promise<DiscoveredServer[]> {
+  if (isTauri) {
+    const onAbort = () => { invoke('cancel_discovery').catch(() => { /* silent */ }); };
+    signal.addEventListener('abort', onAbort, { once: true });
+    try {
+      const hosts = await invoke<Array<{ url: string; xml: string }>>('discover_servers', {
+        cidr: cidr.trim() || null,
+        timeoutMs: TIMEOUT_MS,
+        concurrency: CONCURRENCY,
+      });
+      return hosts.map(h => readSites(h.url, h.xml)).filter((s): s is DiscoveredServer => s !== null);
+    } finally {
+      signal.removeEventListener('abort', onAbort);
+    }
+  }
+
+  if (!cidr.trim()) throw new Error('Enter a range to scan, e.g. 192.168.0.0/24. The browser can\'t see the local network.');
+  const found: DiscoveredServer[] = [];
+  await runQueue(
+    cidrHosts(cidr).map(ip => `http://${ip}`),
+    async (url, outer) => {
+      const ctrl = new AbortController();
+      const timer = setTimeout(() => ctrl.abort(new DOMException('Timed out', 'TimeoutError')), TIMEOUT_MS);
+      const onAbort = () => ctrl.abort(outer.reason);
+      outer.addEventListener('abort', onAbort, { once: true });
+      try {
+        const res = await defaultTransport(`${url}/pinpro/sites`, {}, ctrl.signal);
+        return res.status === 200 ? readSites(url, res.body) : null;
+      } catch {
+        return null;
+      } finally {
+        clearTimeout(timer);
+        outer.removeEventListener('abort', onAbort);
+      }
+    },
+    (_, server) => { if (server) found.push(server); },
+    WEB_CONCURRENCY,
+    signal,
+  );
+  return found;
+}
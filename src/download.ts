@@ -0,0 +1,14 @@
+/** Save a blob through a temporary link, which works in both the browser and the Tauri webview. */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/** Strip characters that are awkward in file names. */
+export function safeFileName(name: string, fallback: string): string {
+  return (name.trim() || fallback).replace(/[^\w-]+/g, '_');
+}
@@ -0,0 +1,66 @@
+import type { InventoryItem, LocationItem, Point, TextItem, ZoneItem } from './types';
+
+export type Rect = { x: number; y: number; w: number; h: number };
+
+/**
+ * Footprint of a location on the canvas. `width`/`height` are the box's own
+ * length and depth; a 90° rotation swaps them on the canvas while `x`/`y`
+ * stay the top-left corner.
+ */
+export function locRect(it: LocationItem): Rect {
+  return it.rotation === 90
+    ? { x: it.x, y: it.y, w: it.height, h: it.width }
+    : { x: it.x, y: it.y, w: it.width, h: it.height };
+}
+
+/** Inverse of locRect: store a canvas footprint back onto the location. */
+export function withRect(it: LocationItem, r: Rect): LocationItem {
+  return it.rotation === 90
+    ? { ...it, x: r.x, y: r.y, width: r.h, height: r.w }
+    : { ...it, x: r.x, y: r.y, width: r.w, height: r.h };
+}
+
+export const zoneRect = (z: ZoneItem): Rect => ({ x: z.x, y: z.y, w: z.width, h: z.height });
+
+/** Footprint of a resizable box: a location or a zone. */
+export const boxRect = (it: LocationItem | ZoneItem): Rect => it.type === 'location' ? locRect(it) : zoneRect(it);
+
+export function withBoxRect<T extends LocationItem | ZoneItem>(it: T, r: Rect): T {
+  if (it.type === 'location') return withRect(it, r) as T;
+  return { ...it, x: r.x, y: r.y, width: r.w, height: r.h };
+}
+
+/** The same item shifted by (dx, dy). */
+export function moveItem<T extends InventoryItem>(it: T, dx: number, dy: number): T {
+  if (it.type === 'line') return { ...it, x1: it.x1 + dx, y1: it.y1 + dy, x2: it.x2 + dx, y2: it.y2 + dy };
+  if (it.type === 'polyline') return { ...it, points: it.points.map(p => ({ x: p.x + dx, y: p.y + dy })) };
+  return { ...it, x: it.x + dx, y: it.y + dy };
+}
+
+/** The point that snaps to the grid when the item is dragged: its first point or top-left corner. */
+export function itemAnchor(it: InventoryItem): Point {
+  if (it.type === 'line') return { x: it.x1, y: it.y1 };
+  if (it.type === 'polyline') return it.points[0];
+  return { x: it.x, y: it.y };
+}
+
+/** Axis-aligned box around an item. Text needs its rendered width, which only a canvas can measure. */
+export function itemBounds(it: InventoryItem, textWidth: (t: TextItem) => number): Rect {
+  if (it.type === 'location') return locRect(it);
+  if (it.type === 'zone') return zoneRect(it);
+  if (it.type === 'text') return { x: it.x, y: it.y, w: textWidth(it), h: it.fontSize };
+  const pts = it.type === 'line' ? [{ x: it.x1, y: it.y1 }, { x: it.x2, y: it.y2 }] : it.points;
+  const xs = pts.map(p => p.x), ys = pts.map(p => p.y);
+  const x = Math.min(...xs), y = Math.min(...ys);
+  return { x, y, w: Math.max(...xs) - x, h: Math.max(...ys) - y };
+}
+
+/** Locations whose centre lies inside the zone, so zones can stand for everything in an area. */
+export function locationsInZone(zone: ZoneItem, items: InventoryItem[]): LocationItem[] {
+  return items.filter((it): it is LocationItem => {
+    if (it.type !== 'location') return false;
+    const r = locRect(it);
+    const cx = r.x + r.w / 2, cy = r.y + r.h / 2;
+    return cx >= zone.x && cx <= zone.x + zone.width && cy >= zone.y && cy <= zone.y + zone.height;
+  });
+}
@@ -0,0 +1,50 @@
+import type { InventoryItem } from './types';
+
+/** One undoable edit: the items before and after it, plus a label for the history panel. */
+export type HistoryEntry = {
+  label: string;
+  before: InventoryItem[];
+  after: InventoryItem[];
+};
+
+export type HistoryState = {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+};
+
+export const EMPTY_HISTORY: HistoryState = { past: [], future: [] };
+
+export const plural = (n: number, word: string) => `${n} ${word}${n !== 1 ? 's' : ''}`;
+
+/** Add an entry, dropping the oldest past `max` and clearing anything redoable. */
+export function recordEntry(h: HistoryState, entry: HistoryEntry, max: number): HistoryState {
+  return { past: [...h.past.slice(-(max - 1)), entry], future: [] };
+}
+
+/**
+ * Move to `position` (the number of applied entries, 0 = before the first one)
+ * and return the items at that point, or null when nothing changes.
+ */
+export function jumpTo(h: HistoryState, position: number): { history: HistoryState; items: InventoryItem[] } | null {
+  const entries = [...h.past, ...h.future];
+  const pos = Math.max(0, Math.min(entries.length, position));
+  if (pos === h.past.length || entries.length === 0) return null;
+  return {
+    history: { past: entries.slice(0, pos), future: entries.slice(pos) },
+    items: pos === 0 ? entries[0].before : entries[pos - 1].after,
+  };
+}
+
+/**
+ * Sync results are not edits, so restoring a snapshot keeps each location's
+ * current status instead of rolling it back with the layout.
+ */
+export function keepStatuses(snapshot: InventoryItem[], current: InventoryItem[]): InventoryItem[] {
+  const status = new Map<number, InventoryItem>();
+  current.forEach(it => { if (it.type === 'location') status.set(it.id, it); });
+  return snapshot.map(it => {
+    if (it.type !== 'location') return it;
+    const cur = status.get(it.id);
+    return cur && cur.type === 'location' && cur.status !== it.status ? { ...it, status: cur.status } : it;
+  });
+}
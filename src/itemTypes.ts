@@ -0,0 +1,68 @@
+import type { InventoryItem } from './types';
+import type { StockItem } from './syncHistory';
+
+export type TypeSummary = {
+  type: string;
+  /** Locations holding at least one item of this type. */
+  locations: number;
+  items: number;
+};
+
+type Cache = Map<number, { items: StockItem[] }>;
+
+/** Distinct item types across the layout's cached sync data, most common first. */
+export function typeSummaries(items: InventoryItem[], cache: Cache): TypeSummary[] {
+  const byType = new Map<string, TypeSummary>();
+  items.forEach(it => {
+    if (it.type !== 'location') return;
+    const seen = new Set<string>();
+    (cache.get(it.id)?.items ?? []).forEach(d => {
+      const s = byType.get(d.itemType) ?? { type: d.itemType, locations: 0, items: 0 };
+      s.items++;
+      if (!seen.has(d.itemType)) { s.locations++; seen.add(d.itemType); }
+      byType.set(d.itemType, s);
+    });
+  });
+  return [...byType.values()].sort((a, b) => b.items - a.items || a.type.localeCompare(b.type));
+}
+
+/** The type with the most items at a location (ties go to the alphabetically first), or null if empty. */
+export function dominantType(stock: StockItem[]): string | null {
+  const counts = new Map<string, number>();
+  stock.forEach(d => counts.set(d.itemType, (counts.get(d.itemType) ?? 0) + 1));
+  let best: string | null = null, bestN = 0;
+  counts.forEach((n, t) => {
+    if (n > bestN || (n === bestN && best !== null && t < best)) { best = t; bestN = n; }
+  });
+  return best;
+}
+
+/** A stable pastel colour per type name, so the legend doesn't reshuffle as types come and go. */
+export function typeColor(type: string): string {
+  let h = 0;
+  for (let i = 0; i < type.length; i++) h = (h * 31 + type.charCodeAt(i)) >>> 0;
+  return `hsl(${(h * 137.508) % 360}, 65%, 80%)`;
+}
+
+/** Locations that hold none of `types`. Empty when no types are selected. */
+export function dimmedLocations(items: InventoryItem[], cache: Cache, types: Set<string>): Set<number> {
+  const out = new Set<number>();
+  if (types.size === 0) return out;
+  items.forEach(it => {
+    if (it.type !== 'location') return;
+    const stock = cache.get(it.id)?.items ?? [];
+    if (!stock.some(d => types.has(d.itemType))) out.add(it.id);
+  });
+  return out;
+}
+
+/** Fill colour for each location by its dominant type. */
+export function typeTints(items: InventoryItem[], cache: Cache): Map<number, string> {
+  const out = new Map<number, string>();
+  items.forEach(it => {
+    if (it.type !== 'location') return;
+    const t = dominantType(cache.get(it.id)?.items ?? []);
+    if (t !== null) out.set(it.id, typeColor(t));
+  });
+  return out;
+}
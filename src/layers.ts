@@ -0,0 +1,103 @@
+import type { InventoryItem } from './types';
+
+/** A named group of items that can be hidden or locked together. */
+export type Layer = {
+  id: number;
+  name: string;
+  visible: boolean;
+  locked: boolean;
+};
+
+/** Items without a (known) layer live here. It can be renamed but not deleted. */
+export const BASE_LAYER_ID = 0;
+
+export const baseLayer = (): Layer => ({ id: BASE_LAYER_ID, name: 'Base', visible: true, locked: false });
+
+/** The layer an item is drawn on. */
+export function layerOf(it: InventoryItem, layers: Layer[]): Layer {
+  return layers.find(l => l.id === (it.layer ?? BASE_LAYER_ID))
+    ?? layers.find(l => l.id === BASE_LAYER_ID)
+    ?? baseLayer();
+}
+
+/** True when the item can't be selected by dragging a box or moved: it or its layer is locked. */
+export const isLocked = (it: InventoryItem, layers: Layer[]) => !!it.locked || layerOf(it, layers).locked;
+
+// The default stacking for new items: zones under lines, and lines under locations and text
+const BAND: Record<InventoryItem['type'], number> = { zone: 0, line: 1, polyline: 1, location: 2, text: 2 };
+
+/**
+ * `items` with `added` put in by kind: each goes under the first item of a
+ * higher kind, so new zones start out under lines and locations. After
+ * that only the item order (bring to front / send to back) decides.
+ */
+export function insertByKind(items: InventoryItem[], added: InventoryItem[]): InventoryItem[] {
+  const out = [...items];
+  added.forEach(it => {
+    const at = out.findIndex(o => BAND[o.type] > BAND[it.type]);
+    if (at === -1) out.push(it);
+    else out.splice(at, 0, it);
+  });
+  return out;
+}
+
+/** Items in the order they used to be drawn in, when kinds were always banded. */
+export function sortByKind(items: InventoryItem[]): InventoryItem[] {
+  return items
+    .map((it, i) => ({ it, i }))
+    .sort((a, b) => BAND[a.it.type] - BAND[b.it.type] || a.i - b.i)
+    .map(e => e.it);
+}
+
+/**
+ * Items on visible layers in drawing order: bottom layer (first in `layers`)
+ * first, keeping the item order within each.
+ */
+export function drawOrder(items: InventoryItem[], layers: Layer[]): InventoryItem[] {
+  const rank = new Map(layers.map((l, i) => [l.id, i]));
+  return items
+    .map((it, i) => ({ it, i, layer: layerOf(it, layers) }))
+    .filter(e => e.layer.visible)
+    .sort((a, b) => (rank.get(a.layer.id) ?? 0) - (rank.get(b.layer.id) ?? 0) || a.i - b.i)
+    .map(e => e.it);
+}
+
+/**
+ * Fit another layout's layers into `layers`. Each incoming layer maps onto
+ * the one here with the same id and name, else the same name; the rest are
+ * added, with an id from `freshId` when theirs is already taken here.
+ * Returns the layers to add and, for each incoming id, its id here.
+ */
+export function mergeLayers(
+  layers: Layer[],
+  incoming: Layer[],
+  freshId: () => number,
+): { added: Layer[]; ids: Map<number, number> } {
+  const added: Layer[] = [];
+  const ids = new Map<number, number>([[BASE_LAYER_ID, BASE_LAYER_ID]]);
+  incoming.forEach(l => {
+    if (l.id === BASE_LAYER_ID) return;
+    const match = layers.find(o => o.id === l.id && o.name === l.name) ?? layers.find(o => o.name === l.name);
+    if (match) { ids.set(l.id, match.id); return; }
+    const taken = layers.some(o => o.id === l.id) || added.some(o => o.id === l.id);
+    const layer = taken ? { ...l, id: freshId() } : l;
+    added.push(layer);
+    ids.set(l.id, layer.id);
+  });
+  return { added, ids };
+}
+
+/** Stored layers, dropping malformed entries and making sure the base layer exists. */
+export function migrateLayers(raw: unknown): Layer[] {
+  const out: Layer[] = [];
+  if (Array.isArray(raw)) {
+    raw.forEach(l => {
+      if (typeof l !== 'object' || l === null) return;
+      const { id, name, visible, locked } = l as Partial<Layer>;
+      if (typeof id !== 'number' || typeof name !== 'string' || out.some(o => o.id === id)) return;
+      out.push({ id, name, visible: visible !== false, locked: locked === true });
+    });
+  }
+  if (!out.some(l => l.id === BASE_LAYER_ID)) out.unshift(baseLayer());
+  return out;
+}
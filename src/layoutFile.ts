@@ -0,0 +1,285 @@
+import type { SiteCheckResult } from './pinpro';
+import type { Cam, InventoryItem, LineItem, LocationItem, PolylineItem, TextItem, ZoneItem } from './types';
+import { downloadBlob, safeFileName } from './download';
+import { migrateLayers, type Layer } from './layers';
+import { migrateStatus, STATUSES } from './status';
+
+export const LAYOUT_FILE_FORMAT = 'inventory-layout';
+// 2 added polylines and zones, 3 added the stacking order
+export const LAYOUT_FILE_VERSION = 3;
+
+export type LayoutFile = {
+  format: typeof LAYOUT_FILE_FORMAT;
+  version: number;
+  name: string;
+  exportedAt: string;
+  locations: LocationItem[];
+  texts: TextItem[];
+  lines: LineItem[];
+  polylines: PolylineItem[];
+  zones: ZoneItem[];
+  /** Item ids bottom to top, i.e. the canvas's z-order. Missing in files from before version 3. */
+  order?: number[];
+  /** Bottom first. Missing in files from before layers. */
+  layers?: Layer[];
+  cam: Cam;
+  site: SiteCheckResult | null;
+};
+
+/** Raised when an imported file is not a layout we can read. The message is shown to the user. */
+export class LayoutFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LayoutFileError';
+  }
+}
+
+export function toLayoutFile(
+  name: string, items: InventoryItem[], layers: Layer[], cam: Cam, site: SiteCheckResult | null,
+): LayoutFile {
+  return {
+    format: LAYOUT_FILE_FORMAT,
+    version: LAYOUT_FILE_VERSION,
+    name,
+    exportedAt: new Date().toISOString(),
+    locations: items.filter((it): it is LocationItem => it.type === 'location'),
+    texts: items.filter((it): it is TextItem => it.type === 'text'),
+    lines: items.filter((it): it is LineItem => it.type === 'line'),
+    polylines: items.filter((it): it is PolylineItem => it.type === 'polyline'),
+    zones: items.filter((it): it is ZoneItem => it.type === 'zone'),
+    order: items.map(it => it.id),
+    layers,
+    cam,
+    site,
+  };
+}
+
+type ItemArrays = Pick<LayoutFile, 'locations' | 'texts' | 'lines' | 'polylines' | 'zones' | 'order'>;
+
+/**
+ * Flatten a file back into one item array in its stacking order. Items the
+ * order doesn't list (all of them in older files) go zones and lines first.
+ */
+export function fileItems(file: ItemArrays): InventoryItem[] {
+  const byType = [...file.zones, ...file.lines, ...file.polylines, ...file.locations, ...file.texts];
+  if (!file.order) return byType;
+  const rank = new Map(file.order.map((id, i) => [id, i]));
+  const unlisted = byType.length;
+  return byType
+    .map((it, i) => ({ it, key: rank.get(it.id) ?? unlisted + i }))
+    .sort((a, b) => a.key - b.key)
+    .map(e => e.it);
+}
+
+// Validation
+
+type Obj = Record<string, unknown>;
+
+export function isObj(v: unknown): v is Obj {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+function num(o: Obj, key: string, path: string): number {
+  const v = o[key];
+  if (typeof v !== 'number' || !Number.isFinite(v)) {
+    throw new LayoutFileError(`${path}.${key} must be a number`);
+  }
+  return v;
+}
+
+function str(o: Obj, key: string, path: string): string {
+  const v = o[key];
+  if (typeof v !== 'string') throw new LayoutFileError(`${path}.${key} must be a string`);
+  return v;
+}
+
+const HEX = /^#[0-9a-fA-F]{6}$/;
+
+/** Optional style fields; missing ones are left off rather than set to undefined. */
+function readStyle(o: Obj, path: string, keys: Array<'color' | 'strokeWidth' | 'fontSize' | 'arrow'>) {
+  const out: { color?: string; strokeWidth?: number; fontSize?: number; arrow?: boolean } = {};
+  keys.forEach(key => {
+    const v = o[key];
+    if (v === undefined) return;
+    if (key === 'color') {
+      if (typeof v !== 'string' || !HEX.test(v)) throw new LayoutFileError(`${path}.color must be a #rrggbb colour`);
+      out.color = v;
+    } else if (key === 'arrow') {
+      if (typeof v !== 'boolean') throw new LayoutFileError(`${path}.arrow must be true or false`);
+      if (v) out.arrow = true;
+    } else {
+      const n = num(o, key, path);
+      if (n <= 0) throw new LayoutFileError(`${path}.${key} must be greater than 0`);
+      out[key] = n;
+    }
+  });
+  return out;
+}
+
+function list(o: Obj, key: string): Obj[] {
+  const v = o[key];
+  if (!Array.isArray(v)) throw new LayoutFileError(`"${key}" must be an array`);
+  return v.map((el, i) => {
+    if (!isObj(el)) throw new LayoutFileError(`${key}[${i}] must be an object`);
+    return el;
+  });
+}
+
+/** Carry the optional `locked` flag and `layer` id over from `o`. */
+function readFlags<T extends InventoryItem>(it: T, o: Obj, path: string): T {
+  if (o.locked !== undefined) {
+    if (typeof o.locked !== 'boolean') throw new LayoutFileError(`${path}.locked must be true or false`);
+    if (o.locked) it.locked = true;
+  }
+  if (o.layer !== undefined) it.layer = num(o, 'layer', path);
+  return it;
+}
+
+function readLocation(o: Obj, path: string): LocationItem {
+  const status = o.status === undefined ? 'unchecked' : migrateStatus(o.status);
+  if (!status) {
+    throw new LayoutFileError(`${path}.status must be one of ${STATUSES.join(', ')}`);
+  }
+  const name = str(o, 'name', path);
+  if (!name.trim()) throw new LayoutFileError(`${path}.name must not be empty`);
+  const loc: LocationItem = {
+    id: num(o, 'id', path), type: 'location', name,
+    x: num(o, 'x', path), y: num(o, 'y', path),
+    status,
+    width: num(o, 'width', path), height: num(o, 'height', path),
+  };
+  if (loc.width <= 0 || loc.height <= 0) throw new LayoutFileError(`${path} must have a positive width and height`);
+  if (o.rotation !== undefined) {
+    if (o.rotation !== 0 && o.rotation !== 90) throw new LayoutFileError(`${path}.rotation must be 0 or 90`);
+    loc.rotation = o.rotation;
+  }
+  if (o.capacity !== undefined) {
+    const cap = num(o, 'capacity', path);
+    if (cap <= 0 || !Number.isInteger(cap)) throw new LayoutFileError(`${path}.capacity must be a positive whole number`);
+    loc.capacity = cap;
+  }
+  return readFlags(loc, o, path);
+}
+
+function readText(o: Obj, path: string): TextItem {
+  return readFlags<TextItem>({
+    id: num(o, 'id', path), type: 'text', content: str(o, 'content', path),
+    x: num(o, 'x', path), y: num(o, 'y', path), fontSize: num(o, 'fontSize', path),
+    ...readStyle(o, path, ['color']),
+  }, o, path);
+}
+
+function readLine(o: Obj, path: string): LineItem {
+  return readFlags<LineItem>({
+    id: num(o, 'id', path), type: 'line',
+    x1: num(o, 'x1', path), y1: num(o, 'y1', path),
+    x2: num(o, 'x2', path), y2: num(o, 'y2', path),
+    ...readStyle(o, path, ['color', 'strokeWidth', 'arrow']),
+  }, o, path);
+}
+
+function readPolyline(o: Obj, path: string): PolylineItem {
+  const points = list(o, 'points').map((p, i) => ({ x: num(p, 'x', `${path}.points[${i}]`), y: num(p, 'y', `${path}.points[${i}]`) }));
+  if (points.length < 2) throw new LayoutFileError(`${path}.points must have at least 2 points`);
+  return readFlags<PolylineItem>({
+    id: num(o, 'id', path), type: 'polyline', points,
+    ...readStyle(o, path, ['color', 'strokeWidth', 'arrow']),
+  }, o, path);
+}
+
+function readZone(o: Obj, path: string): ZoneItem {
+  const zone = readFlags<ZoneItem>({
+    id: num(o, 'id', path), type: 'zone', label: str(o, 'label', path),
+    x: num(o, 'x', path), y: num(o, 'y', path),
+    width: num(o, 'width', path), height: num(o, 'height', path),
+    ...readStyle(o, path, ['color', 'strokeWidth', 'fontSize']),
+  }, o, path);
+  if (zone.width <= 0 || zone.height <= 0) throw new LayoutFileError(`${path} must have a positive width and height`);
+  return zone;
+}
+
+/** Validate the item arrays of a parsed document. `polylines`, `zones` and `order` may be missing (older files). */
+export function readItemArrays(raw: Obj): ItemArrays {
+  const locations = list(raw, 'locations').map((o, i) => readLocation(o, `locations[${i}]`));
+  const texts = list(raw, 'texts').map((o, i) => readText(o, `texts[${i}]`));
+  const lines = list(raw, 'lines').map((o, i) => readLine(o, `lines[${i}]`));
+  const polylines = raw.polylines === undefined ? [] : list(raw, 'polylines').map((o, i) => readPolyline(o, `polylines[${i}]`));
+  const zones = raw.zones === undefined ? [] : list(raw, 'zones').map((o, i) => readZone(o, `zones[${i}]`));
+
+  const ids = new Set<number>();
+  for (const it of [...locations, ...texts, ...lines, ...polylines, ...zones]) {
+    if (ids.has(it.id)) throw new LayoutFileError(`Duplicate item id ${it.id}`);
+    ids.add(it.id);
+  }
+
+  let order: number[] | undefined;
+  if (raw.order !== undefined) {
+    if (!Array.isArray(raw.order) || raw.order.some(id => typeof id !== 'number')) {
+      throw new LayoutFileError('"order" must be an array of item ids');
+    }
+    order = raw.order;
+  }
+  return { locations, texts, lines, polylines, zones, order };
+}
+
+/**
+ * Parse and validate an exported layout. Throws LayoutFileError naming the
+ * first offending field, so the user knows what is wrong with the file.
+ */
+export function parseLayoutFile(text: string): LayoutFile {
+  let raw: unknown;
+  try { raw = JSON.parse(text); }
+  catch { throw new LayoutFileError('File is not valid JSON'); }
+
+  if (!isObj(raw) || raw.format !== LAYOUT_FILE_FORMAT) {
+    throw new LayoutFileError('File is not an inventory layout export');
+  }
+  const version = raw.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new LayoutFileError('Layout file has no valid version');
+  }
+  if (version > LAYOUT_FILE_VERSION) {
+    throw new LayoutFileError(`Layout file version ${version} is newer than this app supports (${LAYOUT_FILE_VERSION})`);
+  }
+
+  const { locations, texts, lines, polylines, zones, order } = readItemArrays(raw);
+
+  let layers: Layer[] | undefined;
+  if (raw.layers !== undefined) {
+    layers = migrateLayers(list(raw, 'layers').map((o, i) => ({
+      id: num(o, 'id', `layers[${i}]`), name: str(o, 'name', `layers[${i}]`),
+      visible: o.visible !== false, locked: o.locked === true,
+    })));
+  }
+
+  let cam: Cam = { x: 0, y: 0, z: 1 };
+  if (raw.cam !== undefined) {
+    if (!isObj(raw.cam)) throw new LayoutFileError('"cam" must be an object');
+    cam = { x: num(raw.cam, 'x', 'cam'), y: num(raw.cam, 'y', 'cam'), z: num(raw.cam, 'z', 'cam') };
+    if (cam.z <= 0) throw new LayoutFileError('cam.z must be greater than 0');
+  }
+
+  let site: SiteCheckResult | null = null;
+  if (raw.site !== undefined && raw.site !== null) {
+    if (!isObj(raw.site)) throw new LayoutFileError('"site" must be an object or null');
+    site = {
+      siteId: num(raw.site, 'siteId', 'site'),
+      shortCode: str(raw.site, 'shortCode', 'site'),
+      yardName: str(raw.site, 'yardName', 'site'),
+    };
+  }
+
+  return {
+    format: LAYOUT_FILE_FORMAT,
+    version,
+    name: typeof raw.name === 'string' ? raw.name : '',
+    exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : '',
+    locations, texts, lines, polylines, zones, order, layers, cam, site,
+  };
+}
+
+/** Trigger a download of the layout as pretty-printed JSON. */
+export function downloadLayoutFile(file: LayoutFile) {
+  const blob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+  downloadBlob(blob, `${safeFileName(file.name, 'layout')}.layout.json`);
+}
@@ -0,0 +1,132 @@
+import type { SiteCheckResult } from './pinpro';
+import type { Cam, InventoryItem } from './types';
+import { migrateItems } from './status';
+import { baseLayer, migrateLayers, sortByKind, type Layer } from './layers';
+
+export type LayoutMeta = {
+  id: number;
+  name: string;
+};
+
+export type LayoutData = {
+  items: InventoryItem[];
+  /** Bottom first; always includes the base layer. */
+  layers: Layer[];
+  cam: Cam;
+  site: SiteCheckResult | null;
+  /** When the last full sync finished (ms since epoch). */
+  lastSync: number | null;
+};
+
+const LAYOUTS_KEY = 'inventory-layouts';
+const ACTIVE_LAYOUT_KEY = 'inventory-active-layout';
+const LAYOUT_DATA_PREFIX = 'inventory-layout:';
+
+// Pre-layout keys, only read once during migration
+const LEGACY_ITEMS_KEY = 'inventory-grid';
+const LEGACY_CAM_KEY = 'inventory-cam';
+const LEGACY_SITE_KEY = 'inventory-selected-site';
+
+export const DEFAULT_CAM: Cam = { x: 0, y: 0, z: 1 };
+
+export const newId = () => Date.now() + Math.random();
+
+function readJson<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : fallback;
+  } catch { return fallback; }
+}
+
+function writeJson(key: string, value: unknown) {
+  try { localStorage.setItem(key, JSON.stringify(value)); } catch { /* silent */ }
+}
+
+export function loadLayoutIndex(): LayoutMeta[] {
+  const list = readJson<LayoutMeta[]>(LAYOUTS_KEY, []);
+  return Array.isArray(list) ? list : [];
+}
+
+export function saveLayoutIndex(list: LayoutMeta[]) {
+  writeJson(LAYOUTS_KEY, list);
+}
+
+export function loadActiveLayoutId(): number | null {
+  return readJson<number | null>(ACTIVE_LAYOUT_KEY, null);
+}
+
+export function saveActiveLayoutId(id: number) {
+  writeJson(ACTIVE_LAYOUT_KEY, id);
+}
+
+// Set on saved layouts whose item order alone decides stacking. Older ones
+// always drew zones, then lines, then locations, whatever the order.
+type StoredLayoutData = Partial<LayoutData> & { stacked?: boolean };
+
+export function loadLayoutData(id: number): LayoutData {
+  const d = readJson<StoredLayoutData>(LAYOUT_DATA_PREFIX + id, {});
+  const cam = d.cam ?? DEFAULT_CAM;
+  const items = Array.isArray(d.items) ? migrateItems(d.items) : [];
+  return {
+    items: d.stacked ? items : sortByKind(items),
+    layers: migrateLayers(d.layers),
+    cam: { x: cam.x ?? 0, y: cam.y ?? 0, z: cam.z ?? 1 },
+    site: d.site ?? null,
+    lastSync: typeof d.lastSync === 'number' ? d.lastSync : null,
+  };
+}
+
+export function saveLayoutData(id: number, data: LayoutData) {
+  const stored: StoredLayoutData = { ...data, stacked: true };
+  writeJson(LAYOUT_DATA_PREFIX + id, stored);
+}
+
+export function removeLayoutData(id: number) {
+  try { localStorage.removeItem(LAYOUT_DATA_PREFIX + id); } catch { /* silent */ }
+}
+
+/**
+ * Load the layout index, creating a default layout when none exist.
+ * The first launch after upgrading moves the old single-canvas data
+ * (items, camera and selected site) into that default layout.
+ */
+export function bootLayouts(): { index: LayoutMeta[]; activeId: number; data: LayoutData } {
+  let index = loadLayoutIndex();
+
+  if (index.length === 0) {
+    const id = newId();
+    saveLayoutData(id, {
+      items: sortByKind(readJson<InventoryItem[]>(LEGACY_ITEMS_KEY, [])),
+      layers: [baseLayer()],
+      cam: { ...DEFAULT_CAM, ...readJson<Partial<Cam>>(LEGACY_CAM_KEY, {}) },
+      site: readJson<SiteCheckResult | null>(LEGACY_SITE_KEY, null),
+      lastSync: null,
+    });
+    index = [{ id, name: 'Default' }];
+    saveLayoutIndex(index);
+    saveActiveLayoutId(id);
+    try {
+      localStorage.removeItem(LEGACY_ITEMS_KEY);
+      localStorage.removeItem(LEGACY_CAM_KEY);
+      localStorage.removeItem(LEGACY_SITE_KEY);
+    } catch { /* silent */ }
+  }
+
+  const stored = loadActiveLayoutId();
+  const activeId = index.some(l => l.id === stored) ? stored! : index[0].id;
+  return { index, activeId, data: loadLayoutData(activeId) };
+}
+
+/** Ids of the locations in every saved layout. */
+export function savedLocationIds(): Set<number> {
+  const ids = new Set<number>();
+  loadLayoutIndex().forEach(l => loadLayoutData(l.id).items.forEach(it => {
+    if (it.type === 'location') ids.add(it.id);
+  }));
+  return ids;
+}
+
+/** Copy items with fresh ids so they never collide with the originals. */
+export function cloneItems(items: InventoryItem[]): InventoryItem[] {
+  return items.map(it => ({ ...it, id: newId() }));
+}
@@ -0,0 +1,241 @@
+import type { InventoryItem } from './types';
+import {
+  arrowHead, arrowSize, drawItems, drawStatusIcon, fitLabel, FONT, LINE_COLOR, STROKE_WIDTH, TEXT_COLOR,
+  ZONE_COLOR, ZONE_FONT_SIZE, ZONE_LABEL_INSET, zoneFill,
+} from './render';
+import { itemBounds, locRect } from './geometry';
+import { STATUS_INFO, STATUSES, type LocationStatus } from './status';
+
+export type MapExportOptions = {
+  title: string;
+  siteName: string;
+  lastSync: number | null;
+  /** Output pixels per world unit (PNG only). */
+  scale: number;
+};
+
+const PAD = 40;
+const HEADER = 72;
+// Legend rows, with half a row of margin above and below
+const LEGEND_ROW = 22;
+const LEGEND_GAP = 24;
+const MIN_WIDTH = 480;
+const MAX_CANVAS = 16384;
+// Browsers refuse larger canvases (by area) and toBlob then yields nothing
+const MAX_AREA = 16384 * 16384;
+
+/** Statuses that appear on the map, in legend order. */
+function legendStatuses(items: InventoryItem[]): LocationStatus[] {
+  const used = new Set(items.map(it => it.type === 'location' ? it.status : null));
+  return STATUSES.filter(s => used.has(s));
+}
+
+let measureCtx: CanvasRenderingContext2D | null = null;
+
+function getMeasureCtx() {
+  measureCtx ??= document.createElement('canvas').getContext('2d');
+  return measureCtx;
+}
+
+function measure(text: string, font: string): number {
+  const ctx = getMeasureCtx();
+  if (!ctx) return text.length * 7;
+  ctx.font = font;
+  return ctx.measureText(text).width;
+}
+
+/** Fixed YYYY-MM-DD HH:MM so the same data always prints the same. */
+export function formatStamp(ms: number): string {
+  const d = new Date(ms);
+  const p = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${p(d.getMonth() + 1)}-${p(d.getDate())} ${p(d.getHours())}:${p(d.getMinutes())}`;
+}
+
+function subtitle(opts: MapExportOptions): string {
+  const sync = opts.lastSync ? `Last sync ${formatStamp(opts.lastSync)}` : 'Never synced';
+  return opts.siteName ? `${opts.siteName} · ${sync}` : sync;
+}
+
+const legendEntryWidth = (s: LocationStatus) => 14 + measure(STATUS_INFO[s].label, `12px ${FONT}`);
+
+/** Legend entries wrapped into rows of at most `maxW`, each entry's offset from the legend's top-left. */
+function legendLayout(statuses: LocationStatus[], maxW: number) {
+  const out: Array<{ status: LocationStatus; x: number; y: number }> = [];
+  let x = 0, row = 0;
+  statuses.forEach(status => {
+    const w = legendEntryWidth(status);
+    if (x > 0 && x + w > maxW) { x = 0; row++; }
+    out.push({ status, x, y: LEGEND_ROW * (row + 0.5) });
+    x += w + LEGEND_GAP;
+  });
+  return { entries: out, height: LEGEND_ROW * (row + 2) };
+}
+
+/**
+ * Page size, where world (0, 0) lands on it (ignoring the on-screen camera)
+ * and where each legend entry goes. Wide enough for the widest legend entry.
+ */
+function metrics(items: InventoryItem[]) {
+  let x1 = Infinity, y1 = Infinity, x2 = -Infinity, y2 = -Infinity;
+  const grow = (ax: number, ay: number, bx: number, by: number) => {
+    x1 = Math.min(x1, ax); y1 = Math.min(y1, ay);
+    x2 = Math.max(x2, bx); y2 = Math.max(y2, by);
+  };
+  items.forEach(it => {
+    const r = itemBounds(it, t => measure(t.content, `${t.fontSize}px ${FONT}`));
+    grow(r.x, r.y, r.x + r.w, r.y + r.h);
+  });
+  if (x1 === Infinity) { x1 = 0; y1 = 0; x2 = 0; y2 = 0; }
+
+  const statuses = legendStatuses(items);
+  const widest = Math.max(0, ...statuses.map(legendEntryWidth));
+  const width = Math.ceil(Math.max(MIN_WIDTH, x2 - x1 + PAD * 2, widest + PAD * 2));
+  const legend = legendLayout(statuses, width - PAD * 2);
+  const height = Math.ceil(HEADER + (y2 - y1) + PAD * 2 + legend.height);
+  const top = height - legend.height + LEGEND_ROW / 2;
+  return {
+    width,
+    height,
+    ox: (width - (x2 - x1)) / 2 - x1,
+    oy: HEADER + PAD - y1,
+    legend: legend.entries.map(e => ({ ...e, x: PAD + e.x, y: top + e.y })),
+  };
+}
+
+/**
+ * Render the items onto a fresh canvas with title, site, sync time and legend. No dot grid.
+ * The scale is reduced when the page would exceed the browser's canvas limits.
+ */
+export function renderMapCanvas(items: InventoryItem[], opts: MapExportOptions): HTMLCanvasElement {
+  const m = metrics(items);
+  const scale = Math.min(opts.scale, MAX_CANVAS / m.width, MAX_CANVAS / m.height, Math.sqrt(MAX_AREA / (m.width * m.height)));
+  const c = document.createElement('canvas');
+  c.width = Math.floor(m.width * scale);
+  c.height = Math.floor(m.height * scale);
+  const ctx = c.getContext('2d');
+  if (!ctx) throw new Error('The map is too large to draw. Try a lower resolution or export the selection.');
+
+  ctx.setTransform(scale, 0, 0, scale, 0, 0);
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, m.width, m.height);
+
+  // Header
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'top';
+  ctx.fillStyle = '#1D1D1F';
+  ctx.font = `600 20px ${FONT}`;
+  ctx.fillText(opts.title, PAD, 20);
+  ctx.fillStyle = '#6E6E73';
+  ctx.font = `12px ${FONT}`;
+  ctx.fillText(subtitle(opts), PAD, 46);
+
+  ctx.save();
+  ctx.translate(m.ox, m.oy);
+  drawItems(ctx, items, new Set(), 1);
+  ctx.restore();
+
+  // Legend
+  m.legend.forEach(({ status, x, y }) => {
+    drawStatusIcon(ctx, status, x + 4, y);
+    ctx.font = `12px ${FONT}`;
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = '#1D1D1F';
+    ctx.fillText(STATUS_INFO[status].label, x + 14, y);
+  });
+
+  return c;
+}
+
+export function renderMapPng(items: InventoryItem[], opts: MapExportOptions): Promise<Blob> {
+  const c = renderMapCanvas(items, opts);
+  return new Promise((resolve, reject) => {
+    c.toBlob(b => b ? resolve(b) : reject(new Error('Could not encode the PNG. Try a lower resolution or SVG.')), 'image/png');
+  });
+}
+
+function esc(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/** SVG twin of drawStatusIcon. */
+function statusIconSvg(status: LocationStatus, x: number, y: number): string {
+  const { icon, color } = STATUS_INFO[status];
+  if (icon === 'ring') return `<circle cx="${x}" cy="${y}" r="3" fill="none" stroke="${color}" stroke-width="1.5"/>`;
+  if (icon === 'dot') return `<circle cx="${x}" cy="${y}" r="3.5" fill="${color}"/>`;
+  if (icon === 'full') {
+    return `<circle cx="${x}" cy="${y}" r="3.5" fill="${color}"/><circle cx="${x}" cy="${y}" r="6" fill="none" stroke="${color}" stroke-width="1.2"/>`;
+  }
+  return `<circle cx="${x}" cy="${y}" r="5.5" fill="${color}"/>`
+    + `<text x="${x}" y="${y + 0.5}" text-anchor="middle" dominant-baseline="central" font-size="8" font-weight="700" fill="#FFFFFF">${esc(icon)}</text>`;
+}
+
+/** Same picture as renderMapCanvas, as a standalone SVG document. */
+export function renderMapSvg(items: InventoryItem[], opts: MapExportOptions): string {
+  const m = metrics(items);
+  const font = esc(FONT);
+  const mctx = getMeasureCtx();
+  const out: string[] = [];
+
+  out.push(`<svg xmlns="http://www.w3.org/2000/svg" width="${m.width}" height="${m.height}" viewBox="0 0 ${m.width} ${m.height}" font-family="${font}">`);
+  out.push(`<rect width="${m.width}" height="${m.height}" fill="#FFFFFF"/>`);
+  out.push(`<text x="${PAD}" y="20" dominant-baseline="text-before-edge" font-size="20" font-weight="600" fill="#1D1D1F">${esc(opts.title)}</text>`);
+  out.push(`<text x="${PAD}" y="46" dominant-baseline="text-before-edge" font-size="12" fill="#6E6E73">${esc(subtitle(opts))}</text>`);
+
+  out.push(`<g transform="translate(${m.ox} ${m.oy})">`);
+  items.forEach(it => {
+    if (it.type === 'zone') {
+      const color = it.color ?? ZONE_COLOR;
+      out.push(`<rect x="${it.x}" y="${it.y}" width="${it.width}" height="${it.height}" fill="${zoneFill(color)}" stroke="${color}" stroke-width="${it.strokeWidth ?? STROKE_WIDTH}"/>`);
+      if (it.label) {
+        out.push(`<text x="${it.x + ZONE_LABEL_INSET.x}" y="${it.y + ZONE_LABEL_INSET.y}" dominant-baseline="text-before-edge" font-size="${it.fontSize ?? ZONE_FONT_SIZE}" font-weight="600" fill="${color}">${esc(it.label)}</text>`);
+      }
+    } else if (it.type === 'line' || it.type === 'polyline') {
+      const pts = it.type === 'line' ? [{ x: it.x1, y: it.y1 }, { x: it.x2, y: it.y2 }] : it.points;
+      const color = it.color ?? LINE_COLOR, width = it.strokeWidth ?? STROKE_WIDTH;
+      out.push(`<polyline points="${pts.map(p => `${p.x},${p.y}`).join(' ')}" fill="none" stroke="${color}" stroke-width="${width}" stroke-linecap="round" stroke-linejoin="round"/>`);
+      if (it.arrow) {
+        const head = arrowHead(pts[pts.length - 2], pts[pts.length - 1], arrowSize(width));
+        out.push(`<polygon points="${head.map(p => `${p.x},${p.y}`).join(' ')}" fill="${color}"/>`);
+      }
+    } else if (it.type === 'location') {
+      const r = locRect(it);
+      const L = it.width, T = it.height;
+      const rot = it.rotation === 90 ? ' rotate(-90)' : '';
+      const label = mctx ? fitLabel(mctx, it.name, L, T) : { text: it.name, size: 12 };
+      out.push(`<g transform="translate(${r.x + r.w / 2} ${r.y + r.h / 2})${rot}">`);
+      out.push(`<rect x="${-L / 2}" y="${-T / 2}" width="${L}" height="${T}" rx="8" fill="#FFFFFF" stroke="#000000" stroke-opacity="0.08" stroke-width="0.5"/>`);
+      out.push(statusIconSvg(it.status, -L / 2 + 14, 0));
+      out.push(`<text x="8" y="0" text-anchor="middle" dominant-baseline="central" font-size="${label.size}" font-weight="500" fill="#1D1D1F">${esc(label.text)}</text>`);
+      out.push('</g>');
+    } else if (it.type === 'text') {
+      out.push(`<text x="${it.x}" y="${it.y}" dominant-baseline="text-before-edge" font-size="${it.fontSize}" fill="${it.color ?? TEXT_COLOR}">${esc(it.content)}</text>`);
+    }
+  });
+  out.push('</g>');
+
+  m.legend.forEach(({ status, x, y }) => {
+    out.push(statusIconSvg(status, x + 4, y));
+    out.push(`<text x="${x + 14}" y="${y}" dominant-baseline="central" font-size="12" fill="#1D1D1F">${esc(STATUS_INFO[status].label)}</text>`);
+  });
+
+  out.push('</svg>');
+  return out.join('\n');
+}
+
+/** Open the system print dialog for an SVG map using a hidden frame. */
+export function printSvg(svg: string, title: string) {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.srcdoc = `<!doctype html><html><head><title>${esc(title)}</title>`
+    + '<style>@page{margin:10mm}body{margin:0}svg{width:100%;height:auto}</style></head>'
+    + `<body>${svg}</body></html>`;
+  frame.onload = () => {
+    frame.contentWindow?.print();
+    setTimeout(() => frame.remove(), 1000);
+  };
+  document.body.appendChild(frame);
+}
@@ -0,0 +1,20 @@
+import { isPermissionGranted, requestPermission, sendNotification } from '@tauri-apps/plugin-notification';
+
+const isTauri = '__TAURI_INTERNALS__' in window;
+
+/**
+ * Show an OS notification from the desktop build. Returns false in the
+ * browser or when permission is refused, so the caller can show a toast.
+ */
+export async function notifyOs(title: string, body: string): Promise<boolean> {
+  if (!isTauri) return false;
+  try {
+    let granted = await isPermissionGranted();
+    if (!granted) granted = (await requestPermission()) === 'granted';
+    if (!granted) return false;
+    sendNotification({ title, body });
+    return true;
+  } catch {
+    return false;
+  }
+}
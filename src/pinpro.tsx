@@ -1,9 +1,22 @@
 import axios from 'axios';
 import { fetch as tauriFetch } from '@tauri-apps/plugin-http';
+import type { CheckStatus } from './status';
+
+export type StockItem = { tag: number; itemType: string; vstockNo: string };
 
 export type LocationCheckResult = {
-  status: 'green' | 'yellow' | 'red';
-  items: Array<{ tag: number; itemType: string; vstockNo: string }>;
+  status: CheckStatus;
+  items: StockItem[];
+  /** Short reason for a failed check, e.g. "HTTP 503". */
+  error?: string;
+  /** Entries in the server's answer that couldn't be read and were left out. */
+  skipped?: number;
+};
+
+/** A location's items as read from the server, and why any entries were left out. */
+export type StockItems = {
+  items: StockItem[];
+  skipped: string[];
 };
 
 export type SiteCheckResult = {
@@ -12,134 +25,269 @@ export type SiteCheckResult = {
   yardName: string;
 };
 
+/** Sent with location lookups; the server answers in this language. */
+export type Locale = {
+  country: string;
+  language: string;
+};
+
+export const DEFAULT_LOCALE: Locale = { country: 'US', language: 'en' };
+
+// Transport
+
+/** The server's answer, whatever the status. */
+export type RawResponse = { status: number; body: string };
+
+/** Thrown by a transport when a request got no HTTP answer at all: bad host name, refused, timed out. */
+export class UnreachableError extends Error {}
+
+/** Sends one GET. Resolves with any HTTP answer; throws UnreachableError when there was none. */
+export type Transport = (url: string, headers: Record<string, string>, signal?: AbortSignal) => Promise<RawResponse>;
+
+// Timers abort with a TimeoutError (as AbortSignal.timeout does); anything else is a cancel
+const unreachable = (error: unknown, signal?: AbortSignal) => {
+  if (error instanceof UnreachableError) return error;
+  if (signal?.aborted) {
+    return new UnreachableError(signal.reason instanceof DOMException && signal.reason.name === 'TimeoutError' ? 'Timed out' : 'Cancelled');
+  }
+  return new UnreachableError(error instanceof Error ? error.message : String(error));
+};
+
+/** The plugin's fetch goes through Rust, so there are no CORS restrictions. */
+export const tauriTransport: Transport = async (url, headers, signal) => {
+  try {
+    const res = await tauriFetch(url, { method: 'GET', headers, signal });
+    return { status: res.status, body: await res.text() };
+  } catch (error) {
+    throw unreachable(error, signal);
+  }
+};
+
+/** In dev (Vite), requests go through the local CORS proxy, which adds the scanner headers itself. */
+export const proxyTransport: Transport = async (url, headers, signal) => {
+  try {
+    const res = await axios.get<string>('/api/proxy', {
+      headers: { 'x-target-url': url, ...(headers.Authorization ? { 'x-auth': headers.Authorization } : {}) },
+      responseType: 'text',
+      validateStatus: () => true,
+      signal,
+    });
+    // The proxy answers 502 with this header when it couldn't reach the target itself
+    if (res.headers['x-proxy-error']) throw new UnreachableError(String(res.data).replace(/^Proxy error: /, ''));
+    return { status: res.status, body: String(res.data) };
+  } catch (error) {
+    throw unreachable(error, signal);
+  }
+};
+
 /* True when running inside the Tauri webview (production build). */
 const isTauri = '__TAURI_INTERNALS__' in window;
 
-export async function checkSite(
-  serverUrl: string,
-): Promise<SiteCheckResult[]> {
-  try {
-    console.log(`[pinpro] Fetching sites`);
-
-    const targetUrl = new URL(`${serverUrl}/pinpro/sites`);
-
-    let xml: string;
-
-    if (isTauri) {
-      const res = await tauriFetch(targetUrl.toString());
-      if (!res.ok) {
-        throw new Error(`HTTP ${res.status}`);
-      }
-      xml = await res.text();
-    } else {
-      const response = await axios.get('/api/proxy', {
-        headers: { 'x-target-url': targetUrl.toString() },
-        responseType: 'text',
-      });
-      xml = response.data;
-    }
+export const defaultTransport: Transport = isTauri ? tauriTransport : proxyTransport;
 
-    // Parse XML response:
-    // <sites><site><siteId>1</siteId><shortCode>MA</shortCode><yardName>My Yard</yardName></site></sites>
-    const parser = new DOMParser();
-    const doc = parser.parseFromString(xml, 'application/xml');
+// Results
 
-    const siteEls = doc.querySelectorAll('site');
-    if (siteEls.length === 0) {
-      console.warn('[pinpro] No <site> elements found in response');
-      return [];
-    }
+/** Why a request failed. `status` is the HTTP status when the server answered. */
+export type PinProError =
+  | { kind: 'not-found'; status: 404; message: string }
+  | { kind: 'unauthorized'; status: 401 | 403; message: string }
+  | { kind: 'network'; status?: number; message: string }
+  | { kind: 'parse'; status: number; message: string };
 
-    const sites: SiteCheckResult[] = [];
-    siteEls.forEach(el => {
-      const siteId = Number(el.querySelector('siteId')?.textContent ?? '0');
-      const shortCode = el.querySelector('shortCode')?.textContent ?? '';
-      const yardName = el.querySelector('yardName')?.textContent ?? '';
-      sites.push({ siteId, shortCode, yardName });
-      console.log(`[pinpro] Site: id=${siteId}, code=${shortCode}, yard=${yardName}`);
-    });
+export type PinProResult<T> = { ok: true; value: T } | { ok: false; error: PinProError };
 
-    return sites;
-  } catch (error) {
-    console.error(`[pinpro] Error fetching sites`, error);
-    return [];
+function httpError(status: number): PinProError {
+  if (status === 404) return { kind: 'not-found', status, message: 'HTTP 404' };
+  if (status === 401 || status === 403) return { kind: 'unauthorized', status, message: `HTTP ${status}` };
+  return { kind: 'network', status, message: `HTTP ${status}` };
+}
+
+const CHECK_STATUS: Record<PinProError['kind'], CheckStatus> = {
+  'not-found': 'not-found',
+  unauthorized: 'auth-error',
+  network: 'network-error',
+  parse: 'bad-response',
+};
+
+/**
+ * A location check for a lookup result:
+ *  - Any items present     = occupied
+ *  - No items              = empty
+ *  - 404                   = not-found
+ *  - 401 / 403             = auth-error
+ *  - unreachable / 5xx     = network-error
+ *  - not a JSON item list  = bad-response
+ */
+export function toCheckResult(result: PinProResult<StockItems>): LocationCheckResult {
+  if (result.ok) {
+    const { items, skipped } = result.value;
+    return { status: items.length > 0 ? 'occupied' : 'empty', items, ...(skipped.length > 0 ? { skipped: skipped.length } : {}) };
   }
+  return { status: CHECK_STATUS[result.error.kind], items: [], error: result.error.message };
 }
 
+/** A sentence for the user about a failed request. */
+export function describeError(error: PinProError): string {
+  switch (error.kind) {
+    case 'not-found': return 'The server has no PinPro service at this address (HTTP 404)';
+    case 'unauthorized': return `The username or password was rejected (HTTP ${error.status})`;
+    case 'network': return error.status === undefined
+      ? `Could not reach the server: ${error.message}`
+      : `The server answered HTTP ${error.status}`;
+    case 'parse': return error.message;
+  }
+}
+
+// Validation
+
 /**
- * Check a location against the server.
- *  - Any items present = red
- *  - No items          = green
- *  - 404 / error       = yellow
+ * Read the `/pinpro/sites` answer:
+ * <sites><site><siteId>1</siteId><shortCode>MA</shortCode><yardName>My Yard</yardName></site></sites>
+ * Throws when it isn't XML or lists no sites.
  */
-export async function checkLocation(
-  serverUrl: string,
-  location: string,
-  siteId: number,
-  username: string,
-  password: string,
-): Promise<LocationCheckResult> {
-  try {
-    console.log(`[pinpro] Checking location: ${location}`);
-
-    // Build the real target URL with query params
-    const targetUrl = new URL(`${serverUrl}/pinpro/locations/parts`);
-    targetUrl.searchParams.set('siteid', String(siteId));
-    targetUrl.searchParams.set('locationtag', location);
-    targetUrl.searchParams.set('country', 'US');
-    targetUrl.searchParams.set('language', 'en');
-
-    const basicAuth = 'Basic ' + btoa(`${username}:${password}`);
-
-    const authHeaders = {
-      'Accept-Encoding': 'gzip',
-      'Authorization': basicAuth,
-      'Connection': 'Keep-Alive',
-      'User-Agent': 'okhttp/3.10.0',
-    };
-
-    let data: unknown;
-
-    if (isTauri) {
-      // In Tauri, use the plugin's fetch which goes through Rust, avoiding CORS issues
-      const res = await tauriFetch(targetUrl.toString(), {
-        method: 'GET',
-        headers: authHeaders,
-      });
-      if (!res.ok) {
-        if (res.status === 404) {
-          console.warn(`[pinpro] ${location} → yellow (404 not found)`);
-          return { status: 'yellow', items: [] };
-        }
-        throw new Error(`HTTP ${res.status}`);
-      }
-      data = await res.json();
-    } else {
-      // In dev (Vite), route through the local CORS proxy
-      const response = await axios.get('/api/proxy', {
-        headers: {
-          'x-target-url': targetUrl.toString(),
-          'x-auth': basicAuth,
-        },
-      });
-      data = response.data;
-    }
+export function parseSites(xml: string): SiteCheckResult[] {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.querySelector('parsererror')) throw new Error('The response is not valid XML');
 
-    const items: Array<{ tag: number; itemType: string; vstockNo: string }> = data as any;
-    const status = items.length > 0 ? 'red' : 'green';
+  const siteEls = doc.querySelectorAll('site');
+  if (siteEls.length === 0) throw new Error('The response lists no sites');
 
-    console.log(`[pinpro] ${location} → ${status} (${items.length} item${items.length !== 1 ? 's' : ''})`);
-    items.forEach(item => {
-      console.log(`[pinpro]   tag=${item.tag}, type=${item.itemType}, stockNo=${item.vstockNo}`);
-    });
+  const sites: SiteCheckResult[] = [];
+  siteEls.forEach(el => {
+    const raw = el.querySelector('siteId')?.textContent?.trim() ?? '';
+    const siteId = Number(raw);
+    if (!raw || !Number.isInteger(siteId) || siteId <= 0) throw new Error('A site in the response has no valid siteId');
+    const shortCode = el.querySelector('shortCode')?.textContent ?? '';
+    const yardName = el.querySelector('yardName')?.textContent ?? '';
+    sites.push({ siteId, shortCode, yardName });
+  });
+  return sites;
+}
 
-    return { status, items };
-  } catch (error) {
-    if (axios.isAxiosError(error) && error.response?.status === 404) {
-      console.warn(`[pinpro] ${location} → yellow (404 not found)`);
-      return { status: 'yellow', items: [] };
+/** One entry of a `locations/parts` answer, or why it can't be read. */
+function readStockItem(raw: unknown, i: number): StockItem | string {
+  const o = (typeof raw === 'object' && raw !== null ? raw : {}) as Record<string, unknown>;
+  const tag = typeof o.tag === 'string' && o.tag.trim() !== '' ? Number(o.tag) : o.tag;
+  if (typeof tag !== 'number' || !Number.isFinite(tag)) return `Item ${i + 1} has no valid tag`;
+  if (typeof o.itemType !== 'string') return `Item ${i + 1} has no item type`;
+  if (typeof o.vstockNo !== 'string' && typeof o.vstockNo !== 'number') return `Item ${i + 1} has no stock number`;
+  return { tag, itemType: o.itemType, vstockNo: String(o.vstockNo) };
+}
+
+/**
+ * Read a `locations/parts` answer: a JSON list of items. Tags and stock
+ * numbers may come as numbers or strings; entries that can't be read are
+ * left out and listed in `skipped`. Throws when it isn't a JSON list, or
+ * when none of its entries can be read.
+ */
+export function parseStockItems(body: string): StockItems {
+  let data: unknown;
+  try { data = JSON.parse(body); } catch { throw new Error('Response is not JSON'); }
+  if (!Array.isArray(data)) throw new Error('Response is not a list of items');
+  const items: StockItem[] = [], skipped: string[] = [];
+  data.forEach((raw: unknown, i) => {
+    const it = readStockItem(raw, i);
+    if (typeof it === 'string') skipped.push(it);
+    else items.push(it);
+  });
+  if (items.length === 0 && skipped.length > 0) throw new Error(`No readable items: ${skipped[0]}`);
+  return { items, skipped };
+}
+
+// Client
+
+export type PinProConfig = {
+  /** e.g. http://192.168.0.100, without /pinpro. */
+  baseUrl: string;
+  siteId?: number;
+  credentials?: { username: string; password: string };
+  locale?: Locale;
+  /** Per request; none when the caller handles timeouts itself. */
+  timeoutMs?: number;
+};
+
+/** Talks to one PinPro server through a transport, validating every answer. */
+export class PinProClient {
+  private readonly config: PinProConfig;
+  private readonly transport: Transport;
+
+  constructor(config: PinProConfig, transport: Transport = defaultTransport) {
+    this.config = config;
+    this.transport = transport;
+  }
+
+  /** An endpoint under the server's /pinpro path. Throws on a malformed base URL. */
+  url(path: string, params: Record<string, string> = {}): URL {
+    const url = new URL(`${this.config.baseUrl.trim().replace(/\/+$/, '')}/pinpro/${path}`);
+    Object.entries(params).forEach(([k, v]) => url.searchParams.set(k, v));
+    return url;
+  }
+
+  /** The items-at-a-location endpoint for one tag, at the configured (or given) site. */
+  locationPartsUrl(location: string, siteId = this.config.siteId): URL {
+    const { country, language } = this.config.locale ?? DEFAULT_LOCALE;
+    return this.url('locations/parts', { siteid: String(siteId ?? ''), locationtag: location, country, language });
+  }
+
+  /**
+   * GET `url`, signed in when `auth` is set. Resolves with any HTTP answer;
+   * throws UnreachableError when there was none.
+   */
+  async request(url: URL | string, auth: boolean, signal?: AbortSignal): Promise<RawResponse> {
+    const headers: Record<string, string> = {};
+    const creds = this.config.credentials;
+    if (auth && creds) {
+      // What the PinPro scanner app sends
+      headers['Accept-Encoding'] = 'gzip';
+      headers['Authorization'] = 'Basic ' + btoa(`${creds.username}:${creds.password}`);
+      headers['Connection'] = 'Keep-Alive';
+      headers['User-Agent'] = 'okhttp/3.10.0';
+    }
+    if (this.config.timeoutMs === undefined) return this.transport(url.toString(), headers, signal);
+
+    const ctrl = new AbortController();
+    const timer = setTimeout(() => ctrl.abort(new DOMException('Timed out', 'TimeoutError')), this.config.timeoutMs);
+    const onAbort = () => ctrl.abort(signal?.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    try {
+      return await this.transport(url.toString(), headers, ctrl.signal);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
     }
-    console.error(`[pinpro] ${location} → yellow (error)`, error);
-    return { status: 'yellow', items: [] };
+  }
+
+  /** Send a request and read a 2xx answer with `parse`. */
+  private async get<T>(url: () => URL, auth: boolean, parse: (body: string) => T, signal?: AbortSignal): Promise<PinProResult<T>> {
+    let res: RawResponse;
+    try {
+      res = await this.request(url(), auth, signal);
+    } catch (error) {
+      const message = error instanceof UnreachableError ? error.message
+        : error instanceof TypeError ? 'The server URL is not valid. It should look like http://192.168.0.100'
+        : String(error);
+      return { ok: false, error: { kind: 'network', message } };
+    }
+    if (res.status < 200 || res.status >= 300) return { ok: false, error: httpError(res.status) };
+    try {
+      return { ok: true, value: parse(res.body) };
+    } catch (error) {
+      return { ok: false, error: { kind: 'parse', status: res.status, message: error instanceof Error ? error.message : String(error) } };
+    }
+  }
+
+  /** The sites (yards) the server offers. */
+  async getSites(signal?: AbortSignal): Promise<PinProResult<SiteCheckResult[]>> {
+    const result = await this.get(() => this.url('sites'), false, parseSites, signal);
+    if (!result.ok) console.error(`[pinpro] Error fetching sites`, result.error);
+    return result;
+  }
+
+  /** The items stored at a location, or why they couldn't be read. Only problems are logged; a sync makes thousands of these. */
+  async getLocationParts(location: string, signal?: AbortSignal): Promise<PinProResult<StockItems>> {
+    const result = await this.get(() => this.locationPartsUrl(location), true, parseStockItems, signal);
+    if (!result.ok) console.warn(`[pinpro] ${location} → ${result.error.kind} (${result.error.message})`);
+    else if (result.value.skipped.length > 0) console.warn(`[pinpro] ${location} → skipped ${result.value.skipped.join('; ')}`);
+    return result;
   }
 }
@@ -0,0 +1,66 @@
+import type { RenameRule } from './clipboard';
+import type { PasswordMode } from './credentials';
+import { newId } from './layouts';
+
+/** Settings that belong to a person rather than to the computer. */
+export type ProfilePrefs = {
+  username: string;
+  passwordMode: PasswordMode;
+  renameRule: RenameRule;
+  staleHours: number | null;
+  fullAt: number | null;
+  autoSync: number | null;
+};
+
+/** Someone who uses this computer, with their own PinPro login and preferences. */
+export type Profile = {
+  id: number;
+  name: string;
+  prefs: ProfilePrefs;
+};
+
+export const DEFAULT_PREFS: ProfilePrefs = {
+  username: '',
+  passwordMode: 'store',
+  renameRule: null,
+  staleHours: 24,
+  fullAt: null,
+  autoSync: null,
+};
+
+const PROFILES_KEY = 'inventory-profiles';
+const ACTIVE_PROFILE_KEY = 'inventory-active-profile';
+
+/** The keyring account holding a profile's PinPro password. */
+export const profileAccount = (id: number) => `profile:${id}`;
+
+export function loadProfiles(): Profile[] {
+  try {
+    const list = JSON.parse(localStorage.getItem(PROFILES_KEY) ?? '[]') as Profile[];
+    return Array.isArray(list) ? list.filter(p => typeof p?.id === 'number' && typeof p.name === 'string' && p.prefs) : [];
+  } catch { return []; }
+}
+
+export function saveProfiles(list: Profile[]) {
+  try { localStorage.setItem(PROFILES_KEY, JSON.stringify(list)); } catch { /* silent */ }
+}
+
+export function saveActiveProfileId(id: number) {
+  try { localStorage.setItem(ACTIVE_PROFILE_KEY, String(id)); } catch { /* silent */ }
+}
+
+/**
+ * Load the profiles, creating one when none exist. The first launch after
+ * upgrading fills it from `legacy`, the settings kept before profiles.
+ */
+export function bootProfiles(legacy: () => ProfilePrefs): { profiles: Profile[]; active: Profile } {
+  let profiles = loadProfiles();
+  if (profiles.length === 0) {
+    const prefs = legacy();
+    profiles = [{ id: newId(), name: prefs.username.trim() || 'Default', prefs }];
+    saveProfiles(profiles);
+  }
+  let stored: number | null = null;
+  try { stored = Number(localStorage.getItem(ACTIVE_PROFILE_KEY)); } catch { /* silent */ }
+  return { profiles, active: profiles.find(p => p.id === stored) ?? profiles[0] };
+}
@@ -0,0 +1,229 @@
+import type { InventoryItem, Point } from './types';
+import { locRect } from './geometry';
+import { STATUS_INFO, type LocationStatus } from './status';
+
+export const FONT = '-apple-system, BlinkMacSystemFont, "SF Pro Text", "Segoe UI", sans-serif';
+
+export const labelFont = (size: number) => `500 ${size}px ${FONT}`;
+
+// Defaults for items that don't set their own style
+export const TEXT_COLOR = '#1D1D1F';
+export const LINE_COLOR = '#C7C7CC';
+export const ZONE_COLOR = '#007AFF';
+export const STROKE_WIDTH = 1.5;
+export const ZONE_FONT_SIZE = 13;
+
+/** Colours offered for text and shapes. */
+export const PALETTE = ['#1D1D1F', '#8E8E93', '#C7C7CC', '#007AFF', '#34C759', '#FF9500', '#FF3B30', '#AF52DE'];
+
+export const zoneFont = (size: number) => `600 ${size}px ${FONT}`;
+
+/** Where a zone's label sits, relative to the zone's top-left corner. */
+export const ZONE_LABEL_INSET = { x: 8, y: 6 };
+
+/** Translucent fill for a zone of colour `hex` (#rrggbb). */
+export const zoneFill = (hex: string) => `${hex}1A`;
+
+/** Length of an arrowhead for a stroke of `width`, in the same units. */
+export const arrowSize = (width: number) => 6 + width * 2;
+
+/** The three corners of an arrowhead at `to`, pointing away from `from`. */
+export function arrowHead(from: Point, to: Point, size: number): Point[] {
+  const a = Math.atan2(to.y - from.y, to.x - from.x);
+  const side = (turn: number) => ({ x: to.x - size * Math.cos(a + turn), y: to.y - size * Math.sin(a + turn) });
+  return [to, side(0.45), side(-0.45)];
+}
+
+const MIN_LABEL = 7;
+const labelCache = new Map<string, { text: string; size: number }>();
+
+/**
+ * Largest label size (12px for a standard box, more for deep ones) that fits
+ * beside the status dot, ellipsised if even the minimum size overflows.
+ * `length` and `depth` are the box's own width and height.
+ */
+export function fitLabel(ctx: CanvasRenderingContext2D, text: string, length: number, depth: number) {
+  const key = `${text}|${length}|${depth}`;
+  const hit = labelCache.get(key);
+  if (hit) return hit;
+
+  const maxW = Math.max(8, length - 28);
+  let size = Math.min(Math.max(12, Math.min(24, Math.floor(depth * 0.3))), Math.max(MIN_LABEL, depth - 8));
+  let fitted: { text: string; size: number } | null = null;
+  for (; size >= MIN_LABEL; size--) {
+    ctx.font = labelFont(size);
+    if (ctx.measureText(text).width <= maxW) { fitted = { text, size }; break; }
+  }
+  if (!fitted) {
+    ctx.font = labelFont(MIN_LABEL);
+    let t = text;
+    while (t.length > 1 && ctx.measureText(t + '…').width > maxW) t = t.slice(0, -1);
+    fitted = { text: t + '…', size: MIN_LABEL };
+  }
+
+  if (labelCache.size > 5000) labelCache.clear();
+  labelCache.set(key, fitted);
+  return fitted;
+}
+
+/** The status marker centred on (x, y), in the current transform's units. */
+export function drawStatusIcon(ctx: CanvasRenderingContext2D, status: LocationStatus, x: number, y: number) {
+  const info = STATUS_INFO[status];
+  ctx.beginPath();
+  if (info.icon === 'ring') {
+    ctx.arc(x, y, 3, 0, Math.PI * 2);
+    ctx.strokeStyle = info.color;
+    ctx.lineWidth = 1.5;
+    ctx.stroke();
+  } else if (info.icon === 'dot' || info.icon === 'full') {
+    ctx.arc(x, y, 3.5, 0, Math.PI * 2);
+    ctx.fillStyle = info.color;
+    ctx.fill();
+    if (info.icon === 'full') {
+      ctx.beginPath();
+      ctx.arc(x, y, 6, 0, Math.PI * 2);
+      ctx.strokeStyle = info.color;
+      ctx.lineWidth = 1.2;
+      ctx.stroke();
+    }
+  } else {
+    ctx.arc(x, y, 5.5, 0, Math.PI * 2);
+    ctx.fillStyle = info.color;
+    ctx.fill();
+    ctx.fillStyle = '#FFFFFF';
+    ctx.font = `700 8px ${FONT}`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(info.icon, x, y + 0.5);
+  }
+}
+
+/** Heatmap fill for a fill level: green when empty through amber to red at 1, darker red beyond. */
+export function heatColor(level: number): string {
+  if (level > 1) return 'hsl(0, 75%, 72%)';
+  return `hsl(${Math.round(130 * (1 - Math.max(0, level)))}, 70%, 84%)`;
+}
+
+export type DrawOptions = {
+  /** Locations whose last sync result is out of date; drawn with a faded marker. */
+  stale?: Set<number>;
+  /** Heatmap mode: fill level per location (1 = full). Locations not in the map stay white. */
+  heat?: Map<number, number>;
+  /** Fill colour per location (colour by item type). Ignored for locations in `heat`. */
+  tint?: Map<number, string>;
+  /** Locations filtered out; drawn faintly. */
+  dimmed?: Set<number>;
+};
+
+/**
+ * Draw items in world space onto a context that already has the camera applied.
+ * Shared by the on-screen canvas and image export so both look the same.
+ */
+export function drawItems(
+  ctx: CanvasRenderingContext2D,
+  items: InventoryItem[],
+  selectedIds: Set<number>,
+  zoom: number,
+  opts: DrawOptions = {},
+) {
+  // One pass in the order given, so layers and z-order decide what's on top
+  items.forEach(it => {
+    const sel = selectedIds.has(it.id);
+
+    if (it.type === 'zone') {
+      const color = it.color ?? ZONE_COLOR;
+      ctx.fillStyle = zoneFill(color);
+      ctx.fillRect(it.x, it.y, it.width, it.height);
+      ctx.strokeStyle = sel ? '#007AFF' : color;
+      ctx.lineWidth = (it.strokeWidth ?? STROKE_WIDTH) / zoom;
+      ctx.strokeRect(it.x, it.y, it.width, it.height);
+      if (it.label) {
+        ctx.fillStyle = color;
+        ctx.font = zoneFont(it.fontSize ?? ZONE_FONT_SIZE);
+        ctx.textAlign = 'left';
+        ctx.textBaseline = 'top';
+        ctx.fillText(it.label, it.x + ZONE_LABEL_INSET.x, it.y + ZONE_LABEL_INSET.y);
+      }
+
+    } else if (it.type === 'line' || it.type === 'polyline') {
+      const pts = it.type === 'line' ? [{ x: it.x1, y: it.y1 }, { x: it.x2, y: it.y2 }] : it.points;
+      const width = (it.strokeWidth ?? STROKE_WIDTH) + (sel ? 0.5 : 0);
+      const color = sel ? '#007AFF' : it.color ?? LINE_COLOR;
+      ctx.strokeStyle = color;
+      ctx.lineWidth = width / zoom;
+      ctx.lineCap = 'round';
+      ctx.lineJoin = 'round';
+      ctx.beginPath();
+      pts.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+      ctx.stroke();
+      if (it.arrow && pts.length >= 2) {
+        const head = arrowHead(pts[pts.length - 2], pts[pts.length - 1], arrowSize(width) / zoom);
+        ctx.fillStyle = color;
+        ctx.beginPath();
+        head.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+        ctx.closePath();
+        ctx.fill();
+      }
+
+    } else if (it.type === 'location') {
+      const r = locRect(it);
+      const L = it.width, T = it.height;
+
+      // Draw in the box's own frame, centred, so rotation is a single turn
+      ctx.save();
+      ctx.translate(r.x + r.w / 2, r.y + r.h / 2);
+      if (it.rotation === 90) ctx.rotate(-Math.PI / 2);
+      if (opts.dimmed?.has(it.id)) ctx.globalAlpha = 0.2;
+      const alpha = ctx.globalAlpha;
+
+      ctx.shadowColor = sel ? 'rgba(0, 122, 255, 0.12)' : 'rgba(0, 0, 0, 0.04)';
+      ctx.shadowBlur = 3;
+      ctx.shadowOffsetY = 1;
+      ctx.shadowOffsetX = 0;
+
+      const level = opts.heat?.get(it.id);
+      ctx.fillStyle = level !== undefined ? heatColor(level) : opts.tint?.get(it.id) ?? '#FFFFFF';
+      ctx.beginPath();
+      ctx.roundRect(-L / 2, -T / 2, L, T, 8);
+      ctx.fill();
+
+      ctx.shadowColor = 'transparent';
+      ctx.shadowBlur = 0;
+      ctx.shadowOffsetY = 0;
+
+      ctx.strokeStyle = sel ? '#007AFF' : 'rgba(0, 0, 0, 0.08)';
+      ctx.lineWidth = sel ? 1.5 : 0.5;
+      ctx.beginPath();
+      ctx.roundRect(-L / 2, -T / 2, L, T, 8);
+      ctx.stroke();
+
+      if (opts.stale?.has(it.id)) ctx.globalAlpha = alpha * 0.35;
+      drawStatusIcon(ctx, it.status, -L / 2 + 14, 0);
+      ctx.globalAlpha = alpha;
+
+      const label = fitLabel(ctx, it.name, L, T);
+      ctx.fillStyle = TEXT_COLOR;
+      ctx.font = labelFont(label.size);
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(label.text, 8, 0);
+      ctx.restore();
+
+    } else {
+      ctx.fillStyle = it.color ?? TEXT_COLOR;
+      ctx.font = `${it.fontSize}px ${FONT}`;
+      ctx.textAlign = 'left';
+      ctx.textBaseline = 'top';
+      ctx.fillText(it.content, it.x, it.y);
+
+      if (sel) {
+        const m = ctx.measureText(it.content);
+        ctx.strokeStyle = 'rgba(0, 122, 255, 0.4)';
+        ctx.lineWidth = 1 / zoom;
+        ctx.setLineDash([3 / zoom, 3 / zoom]);
+        ctx.strokeRect(it.x - 3, it.y - 3, m.width + 6, it.fontSize + 6);
+        ctx.setLineDash([]);
+      }
+    }
+  });
+}
@@ -0,0 +1,81 @@
+import type { InventoryItem } from './types';
+import type { LocationCheckResult } from './pinpro';
+
+export type SearchResult = {
+  item: InventoryItem;
+  /** What to show in the list: the location name or text label. */
+  label: string;
+  /** The synced item that matched, when the hit came from sync data. */
+  detail: string | null;
+  score: number;
+};
+
+const MAX_RESULTS = 50;
+
+const norm = (s: string) => s.toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * How well `query` matches `text`: exact beats prefix beats substring beats
+ * in-order characters (`wd1r2` finds `1-WD1 R2 L1`). 0 means no match.
+ */
+export function fuzzyScore(query: string, text: string): number {
+  const q = norm(query), t = norm(text);
+  if (!q || !t) return 0;
+  if (t === q) return 100;
+  if (t.startsWith(q)) return 80;
+  const at = t.indexOf(q);
+  if (at >= 0) return 60 - Math.min(at, 20);
+
+  // Subsequence: every query character in order, ignoring spaces
+  const chars = q.replace(/ /g, '');
+  let ti = 0, gaps = 0;
+  for (const c of chars) {
+    const found = t.indexOf(c, ti);
+    if (found < 0) return 0;
+    gaps += found - ti;
+    ti = found + 1;
+  }
+  return Math.max(1, 30 - gaps);
+}
+
+/**
+ * Locations, text labels and zones matching `query`, best first. Locations also match
+ * on the tag, item type and stock number of whatever the last sync found there.
+ */
+export function searchItems(
+  query: string,
+  items: InventoryItem[],
+  data: Map<number, { items: LocationCheckResult['items'] }>,
+): SearchResult[] {
+  if (!norm(query)) return [];
+  const out: SearchResult[] = [];
+
+  items.forEach(it => {
+    if (it.type === 'line' || it.type === 'polyline') return;
+    const label = it.type === 'location' ? it.name : it.type === 'zone' ? it.label : it.content;
+    let best: SearchResult | null = null;
+    const score = fuzzyScore(query, label);
+    if (score > 0) best = { item: it, label, detail: null, score };
+
+    if (it.type === 'location') {
+      (data.get(it.id)?.items ?? []).forEach(d => {
+        // Synced fields are exact codes, so only count direct (non-fuzzy) hits
+        const s = Math.max(
+          ...[String(d.tag), d.vstockNo, d.itemType].map(f => {
+            const v = fuzzyScore(query, f);
+            return v > 30 ? v : 0;
+          }),
+        );
+        if (s > 0 && (!best || s > best.score)) {
+          best = { item: it, label, detail: `${d.itemType} · tag ${d.tag} · ${d.vstockNo}`, score: s };
+        }
+      });
+    }
+
+    if (best) out.push(best);
+  });
+
+  return out
+    .sort((a, b) => b.score - a.score || a.label.localeCompare(b.label, undefined, { numeric: true }))
+    .slice(0, MAX_RESULTS);
+}
@@ -0,0 +1,155 @@
+import type { InventoryItem } from './types';
+
+export type LocationStatus =
+  | 'unchecked'
+  | 'empty'
+  | 'occupied'
+  | 'full'
+  | 'over-capacity'
+  | 'not-found'
+  | 'auth-error'
+  | 'network-error'
+  | 'bad-response';
+
+/** What a server check can report. `full`, `over-capacity` and `unchecked` are decided locally. */
+export type CheckStatus = Exclude<LocationStatus, 'full' | 'over-capacity' | 'unchecked'>;
+
+export type StatusInfo = {
+  label: string;
+  color: string;
+  /** Canvas marker: a filled dot, a hollow ring, a dot with a halo, or a glyph in a disc. One per status. */
+  icon: 'dot' | 'ring' | 'full' | '+' | '–' | '?' | '!' | '×' | '≠';
+  explanation: string;
+};
+
+export const STATUS_INFO: Record<LocationStatus, StatusInfo> = {
+  unchecked: {
+    label: 'Not checked', color: '#AEAEB2', icon: 'ring',
+    explanation: 'This location has not been synced yet.',
+  },
+  empty: {
+    label: 'Empty', color: '#34C759', icon: '–',
+    explanation: 'The server has no items at this location.',
+  },
+  occupied: {
+    label: 'Occupied', color: '#FF3B30', icon: 'dot',
+    explanation: 'The server lists items at this location.',
+  },
+  full: {
+    label: 'Full', color: '#AF52DE', icon: 'full',
+    explanation: 'The number of items has reached the location\'s capacity, or the "full" threshold set in Settings.',
+  },
+  'over-capacity': {
+    label: 'Over capacity', color: '#5856D6', icon: '+',
+    explanation: 'There are more items than the location\'s capacity, or the "full" threshold set in Settings.',
+  },
+  'not-found': {
+    label: 'Not found', color: '#FF9F0A', icon: '?',
+    explanation: 'The server does not know this location tag (HTTP 404). Check the spelling and that it exists at the selected site.',
+  },
+  'auth-error': {
+    label: 'Sign-in failed', color: '#FF2D55', icon: '!',
+    explanation: 'The server rejected the username or password (HTTP 401/403). Check them in Settings.',
+  },
+  'network-error': {
+    label: 'Connection problem', color: '#8E8E93', icon: '×',
+    explanation: 'The server could not be reached or answered with an error. Check the server URL and your network.',
+  },
+  'bad-response': {
+    label: 'Unexpected response', color: '#A2845E', icon: '≠',
+    explanation: 'The server answered, but not with a list of items. The URL may point at a different service or a login page.',
+  },
+};
+
+export const STATUSES = Object.keys(STATUS_INFO) as LocationStatus[];
+
+/** True for checks that failed, whose (empty) item list says nothing about the location. */
+export const isFailure = (s: LocationStatus | undefined) =>
+  s === 'not-found' || s === 'auth-error' || s === 'network-error' || s === 'bad-response';
+
+// Before the richer model: green = empty or never checked, red = items, yellow = any failure.
+// Yellow doesn't say which failure, so those locations start over as unchecked.
+const LEGACY: Record<string, LocationStatus> = { green: 'unchecked', red: 'occupied', yellow: 'unchecked' };
+
+/** A status from storage or a file, upgrading the old colour names. Null if unrecognised. */
+export function migrateStatus(s: unknown): LocationStatus | null {
+  if (typeof s !== 'string') return null;
+  if ((STATUSES as string[]).includes(s)) return s as LocationStatus;
+  return LEGACY[s] ?? null;
+}
+
+export function migrateItems(items: InventoryItem[]): InventoryItem[] {
+  return items.map(it => {
+    if (it.type !== 'location') return it;
+    const status = migrateStatus(it.status) ?? 'unchecked';
+    return status === it.status ? it : { ...it, status };
+  });
+}
+
+/** 'filled' or 'emptied' when a check moves a location between empty and holding items. */
+export function occupancyFlip(before: CheckStatus | undefined, after: CheckStatus): 'filled' | 'emptied' | null {
+  if (before === 'empty' && after === 'occupied') return 'filled';
+  if (before === 'occupied' && after === 'empty') return 'emptied';
+  return null;
+}
+
+/**
+ * Turn a server answer into the status shown, marking it full at exactly
+ * `fullAt` items (the location's capacity when it has one, else the global
+ * threshold) and over capacity beyond that.
+ */
+export function resolveStatus(check: CheckStatus, count: number, fullAt: number | null): LocationStatus {
+  if (check !== 'occupied' || fullAt === null || count < fullAt) return check;
+  return count > fullAt ? 'over-capacity' : 'full';
+}
+
+/** Statuses worked out from a successful check's item count, so re-derived when capacities change. */
+const isCountStatus = (s: LocationStatus) => s === 'occupied' || s === 'full' || s === 'over-capacity';
+
+/**
+ * Re-derive statuses from cached results: fills in locations that were never
+ * checked in this layout's saved state, and re-applies capacity and the "full" threshold.
+ * Returns `items` unchanged when nothing differs.
+ */
+export function refreshStatuses(
+  items: InventoryItem[],
+  cache: Map<number, { items: unknown[]; status?: CheckStatus }>,
+  fullAt: number | null,
+): InventoryItem[] {
+  let changed = false;
+  const next = items.map(it => {
+    if (it.type !== 'location') return it;
+    const c = cache.get(it.id);
+    if (!c?.status) return it;
+    if (it.status !== 'unchecked' && !isCountStatus(it.status)) return it;
+    if (it.status === 'unchecked' || c.status === 'occupied') {
+      const status = resolveStatus(c.status, c.items.length, it.capacity ?? fullAt);
+      if (status !== it.status) { changed = true; return { ...it, status }; }
+    }
+    return it;
+  });
+  return changed ? next : items;
+}
+
+/**
+ * Heatmap levels for locations with a successful cached check: items over
+ * capacity, or over the busiest location's count for those without one.
+ */
+export function fillLevels(
+  items: InventoryItem[],
+  cache: Map<number, { items: unknown[]; status?: CheckStatus }>,
+): Map<number, number> {
+  const counts = new Map<number, number>();
+  items.forEach(it => {
+    if (it.type !== 'location') return;
+    const c = cache.get(it.id);
+    if (c && !isFailure(c.status)) counts.set(it.id, c.items.length);
+  });
+  const busiest = Math.max(1, ...counts.values());
+  const out = new Map<number, number>();
+  items.forEach(it => {
+    const n = counts.get(it.id);
+    if (it.type === 'location' && n !== undefined) out.set(it.id, n / (it.capacity ?? busiest));
+  });
+  return out;
+}
@@ -0,0 +1,272 @@
+import type { LocationCheckResult } from './pinpro';
+import type { SyncRun } from './syncHistory';
+import { MAX_AUDIT_ENTRIES, type AuditEntry } from './audit';
+import { isFailure, migrateStatus, type CheckStatus } from './status';
+
+/**
+ * One location's last successful check, and its last failed one if that came
+ * after. A failure never replaces the items, so they stay the last known contents.
+ */
+export type CachedLocation = {
+  id: number;
+  items: LocationCheckResult['items'];
+  /** When the last successful check was; missing when none has succeeded. */
+  fetchedAt?: number;
+  /** Missing on entries cached before statuses were stored. */
+  status?: CheckStatus;
+  /** Unreadable entries the server listed that `items` leaves out. */
+  skipped?: number;
+  /** Set when the latest check failed; cleared by the next good one. */
+  lastErrorStatus?: CheckStatus;
+  lastError?: string;
+  lastErrorAt?: number;
+};
+
+/** Record a check's result on top of the location's previous entry. */
+export function cacheResult(
+  prev: CachedLocation | undefined,
+  id: number,
+  res: LocationCheckResult,
+  at: number,
+): CachedLocation {
+  if (!isFailure(res.status)) return { id, items: res.items, status: res.status, fetchedAt: at, skipped: res.skipped };
+  return {
+    id,
+    items: prev?.items ?? [],
+    status: prev?.status,
+    fetchedAt: prev?.fetchedAt,
+    skipped: prev?.skipped,
+    lastErrorStatus: res.status,
+    lastError: res.error,
+    lastErrorAt: at,
+  };
+}
+
+/** The status to show for a cached entry: the failure when the latest check failed. */
+export const cachedStatus = (c: CachedLocation): CheckStatus | undefined => c.lastErrorStatus ?? c.status;
+
+const DB_NAME = 'inventory-ui';
+const DB_VERSION = 3;
+const STORE = 'location-data';
+const RUNS = 'sync-runs';
+const AUDIT = 'audit-log';
+export const MAX_SYNC_RUNS = 50;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(STORE)) {
+        db.createObjectStore(STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(RUNS)) {
+        db.createObjectStore(RUNS, { keyPath: 'id' }).createIndex('layoutId', 'layoutId');
+      }
+      if (!db.objectStoreNames.contains(AUDIT)) {
+        db.createObjectStore(AUDIT, { keyPath: 'id' });
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+  // Let a later call retry if the first open failed
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+}
+
+// Before the richer statuses, yellow meant any failed check without saying which
+const LEGACY_FAILURE = 'yellow';
+
+/** Server statuses cached under the old colour names. */
+function upgrade(s: unknown): CheckStatus | undefined {
+  const st = migrateStatus(s === 'green' ? 'empty' : s);
+  return st && st !== 'unchecked' && st !== 'full' && st !== 'over-capacity' ? st : undefined;
+}
+
+/** Entries from before failures were kept apart stored a failed check as the result, with no items. */
+function upgradeEntry(r: CachedLocation & { error?: string }): CachedLocation {
+  const { error, ...rest } = r;
+  if ((r.status as string) === LEGACY_FAILURE) return { id: r.id, items: [], lastError: error, lastErrorAt: r.fetchedAt };
+  const status = upgrade(r.status);
+  if (!isFailure(status)) return { ...rest, status };
+  return { id: r.id, items: [], lastErrorStatus: status, lastError: error, lastErrorAt: r.fetchedAt };
+}
+
+function done(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/** Every cached result, keyed by location id. Empty if IndexedDB is unavailable. */
+export async function loadSyncCache(): Promise<Map<number, CachedLocation>> {
+  const out = new Map<number, CachedLocation>();
+  try {
+    const db = await openDb();
+    const req = db.transaction(STORE, 'readonly').objectStore(STORE).getAll();
+    const rows = await new Promise<CachedLocation[]>((resolve, reject) => {
+      req.onsuccess = () => resolve(req.result as CachedLocation[]);
+      req.onerror = () => reject(req.error);
+    });
+    rows.forEach(r => out.set(r.id, upgradeEntry(r)));
+  } catch { /* silent */ }
+  return out;
+}
+
+export async function saveSyncResults(entries: CachedLocation[]) {
+  if (entries.length === 0) return;
+  try {
+    const db = await openDb();
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    entries.forEach(e => store.put(e));
+    await done(tx);
+  } catch { /* silent */ }
+}
+
+export async function deleteSyncResults(ids: number[]) {
+  if (ids.length === 0) return;
+  try {
+    const db = await openDb();
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    ids.forEach(id => store.delete(id));
+    await done(tx);
+  } catch { /* silent */ }
+}
+
+/**
+ * Forget locations not in `keep`, i.e. ones deleted, cut or replaced since:
+ * their cached results and their entries in sync runs. Runs left empty go too.
+ */
+export async function pruneSyncData(keep: Set<number>) {
+  // An unreadable layout store looks like no locations at all; don't wipe everything over it
+  if (keep.size === 0) return;
+  try {
+    const db = await openDb();
+    const tx = db.transaction([STORE, RUNS], 'readwrite');
+    const cache = tx.objectStore(STORE);
+    const keys = cache.getAllKeys();
+    keys.onsuccess = () => keys.result.forEach(k => { if (!keep.has(k as number)) cache.delete(k); });
+    const runs = tx.objectStore(RUNS);
+    const all = runs.getAll();
+    all.onsuccess = () => (all.result as SyncRun[]).forEach(r => {
+      const entries = r.entries.filter(e => keep.has(e.id));
+      if (entries.length === r.entries.length) return;
+      if (entries.length === 0) runs.delete(r.id);
+      else runs.put({ ...r, entries, changes: r.changes.filter(c => keep.has(c.id)) });
+    });
+    await done(tx);
+  } catch { /* silent */ }
+}
+
+/** Sync runs for one layout, oldest first. */
+export async function loadSyncRuns(layoutId: number): Promise<SyncRun[]> {
+  try {
+    const db = await openDb();
+    const req = db.transaction(RUNS, 'readonly').objectStore(RUNS).index('layoutId').getAll(layoutId);
+    const runs = await new Promise<SyncRun[]>((resolve, reject) => {
+      req.onsuccess = () => resolve(req.result as SyncRun[]);
+      req.onerror = () => reject(req.error);
+    });
+    // Old failed entries can't say how they failed, so they're left out rather than guessed
+    return runs
+      .map(r => ({
+        ...r,
+        entries: r.entries
+          .filter(e => (e.status as string) !== LEGACY_FAILURE)
+          .map(e => ({ ...e, status: upgrade(e.status) ?? 'empty' })),
+      }))
+      .sort((a, b) => a.startedAt - b.startedAt);
+  } catch { return []; }
+}
+
+/**
+ * Store a run. Given the layout's other runs (`existing`, oldest first, which
+ * may include this one), also drop the oldest beyond the limit; pass them
+ * once when the run finishes, not on every save.
+ */
+export async function saveSyncRun(run: SyncRun, existing: SyncRun[] = []) {
+  try {
+    const db = await openDb();
+    const tx = db.transaction(RUNS, 'readwrite');
+    const store = tx.objectStore(RUNS);
+    store.put(run);
+    const others = existing.filter(r => r.id !== run.id);
+    others.slice(0, Math.max(0, others.length + 1 - MAX_SYNC_RUNS)).forEach(r => store.delete(r.id));
+    await done(tx);
+  } catch { /* silent */ }
+}
+
+export async function deleteSyncRuns(layoutId: number) {
+  try {
+    const db = await openDb();
+    const tx = db.transaction(RUNS, 'readwrite');
+    const store = tx.objectStore(RUNS);
+    const req = store.index('layoutId').getAllKeys(layoutId);
+    req.onsuccess = () => req.result.forEach(k => store.delete(k));
+    await done(tx);
+  } catch { /* silent */ }
+}
+
+/** The audit log, oldest first. */
+export async function loadAuditLog(): Promise<AuditEntry[]> {
+  try {
+    const db = await openDb();
+    const req = db.transaction(AUDIT, 'readonly').objectStore(AUDIT).getAll();
+    const rows = await new Promise<AuditEntry[]>((resolve, reject) => {
+      req.onsuccess = () => resolve(req.result as AuditEntry[]);
+      req.onerror = () => reject(req.error);
+    });
+    return rows.sort((a, b) => a.at - b.at);
+  } catch { return []; }
+}
+
+/** Add an entry, dropping the oldest beyond the limit. Ids are timestamps, so key order is age. */
+export async function appendAuditEntry(entry: AuditEntry) {
+  try {
+    const db = await openDb();
+    const tx = db.transaction(AUDIT, 'readwrite');
+    const store = tx.objectStore(AUDIT);
+    store.put(entry);
+    const count = store.count();
+    count.onsuccess = () => {
+      let extra = count.result - MAX_AUDIT_ENTRIES;
+      if (extra <= 0) return;
+      const cur = store.openCursor();
+      cur.onsuccess = () => {
+        if (!cur.result || extra-- <= 0) return;
+        cur.result.delete();
+        cur.result.continue();
+      };
+    };
+    await done(tx);
+  } catch { /* silent */ }
+}
+
+/** "just now", "5 minutes ago", "3 hours ago", "2 days ago". */
+export function timeAgo(ms: number, now: number): string {
+  const min = Math.floor((now - ms) / 60000);
+  if (min < 1) return 'just now';
+  if (min < 60) return `${min} minute${min !== 1 ? 's' : ''} ago`;
+  const h = Math.floor(min / 60);
+  if (h < 24) return `${h} hour${h !== 1 ? 's' : ''} ago`;
+  const d = Math.floor(h / 24);
+  return `${d} day${d !== 1 ? 's' : ''} ago`;
+}
+
+/**
+ * Locations whose last successful check is older than `maxAgeMs`.
+ * Locations never checked successfully are not stale.
+ */
+export function staleIds(cache: Map<number, CachedLocation>, maxAgeMs: number | null, now: number): Set<number> {
+  const out = new Set<number>();
+  if (maxAgeMs === null) return out;
+  cache.forEach(c => { if (c.fetchedAt !== undefined && now - c.fetchedAt > maxAgeMs) out.add(c.id); });
+  return out;
+}
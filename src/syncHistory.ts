@@ -0,0 +1,73 @@
+import type { LocationCheckResult } from './pinpro';
+import { isFailure, type CheckStatus } from './status';
+
+export type StockItem = LocationCheckResult['items'][number];
+
+export type SyncScope = 'all' | 'selection' | 'visible' | 'stale';
+
+/** One location as a sync run found it. */
+export type RunEntry = {
+  id: number;
+  name: string;
+  status: CheckStatus;
+  items: StockItem[];
+};
+
+/** What arrived at and left one location since its previous successful check. */
+export type LocationChange = {
+  id: number;
+  name: string;
+  arrived: StockItem[];
+  left: StockItem[];
+};
+
+/** A timestamped snapshot of one sync run and the changes it found. */
+export type SyncRun = {
+  id: number;
+  layoutId: number;
+  /** Which locations the run covered; missing on runs from before scoped syncs. */
+  scope?: SyncScope;
+  startedAt: number;
+  /** Null while running, or when the run was cancelled or interrupted. */
+  finishedAt: number | null;
+  entries: RunEntry[];
+  changes: LocationChange[];
+};
+
+const itemKey = (i: StockItem) => `${i.tag}|${i.vstockNo}`;
+
+/** Items in `after` but not `before` (arrived) and the other way round (left), by tag and stock number. */
+export function diffItems(before: StockItem[], after: StockItem[]): { arrived: StockItem[]; left: StockItem[] } {
+  const was = new Set(before.map(itemKey));
+  const now = new Set(after.map(itemKey));
+  return {
+    arrived: after.filter(i => !was.has(itemKey(i))),
+    left: before.filter(i => !now.has(itemKey(i))),
+  };
+}
+
+/**
+ * The change for one location since `prev`, its last successful check, or
+ * null when nothing moved. Failed checks and first successful checks have
+ * nothing to compare, so they never count.
+ */
+export function locationChange(
+  prev: { items: StockItem[]; status?: CheckStatus; fetchedAt?: number } | undefined,
+  entry: RunEntry,
+): LocationChange | null {
+  if (!prev || prev.fetchedAt === undefined || isFailure(prev.status) || isFailure(entry.status)) return null;
+  const { arrived, left } = diffItems(prev.items, entry.items);
+  if (arrived.length === 0 && left.length === 0) return null;
+  return { id: entry.id, name: entry.name, arrived, left };
+}
+
+/** Runs that checked location `id`, newest first, with that location's entry and change. */
+export function locationHistory(runs: SyncRun[], id: number) {
+  const out: Array<{ run: SyncRun; entry: RunEntry; change: LocationChange | null }> = [];
+  for (let i = runs.length - 1; i >= 0; i--) {
+    const entry = runs[i].entries.find(e => e.id === id);
+    if (!entry) continue;
+    out.push({ run: runs[i], entry, change: runs[i].changes.find(c => c.id === id) ?? null });
+  }
+  return out;
+}
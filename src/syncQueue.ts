@@ -0,0 +1,112 @@
+export type SyncSettings = {
+  /** Requests in flight at once. */
+  concurrency: number;
+  /** Per-request timeout, including each retry. */
+  timeoutMs: number;
+  /** Extra attempts after a transient failure. */
+  retries: number;
+};
+
+export const DEFAULT_SYNC_SETTINGS: SyncSettings = { concurrency: 6, timeoutMs: 15000, retries: 2 };
+
+const SETTINGS_KEY = 'inventory-sync-settings';
+const RESUME_KEY = 'inventory-sync-resume';
+const BASE_DELAY_MS = 500;
+
+const clamp = (v: unknown, min: number, max: number, fallback: number) =>
+  typeof v === 'number' && Number.isFinite(v) ? Math.min(max, Math.max(min, Math.round(v))) : fallback;
+
+export function loadSyncSettings(): SyncSettings {
+  try {
+    const raw = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? '{}') as Partial<SyncSettings>;
+    return {
+      concurrency: clamp(raw.concurrency, 1, 20, DEFAULT_SYNC_SETTINGS.concurrency),
+      timeoutMs: clamp(raw.timeoutMs, 1000, 120000, DEFAULT_SYNC_SETTINGS.timeoutMs),
+      retries: clamp(raw.retries, 0, 5, DEFAULT_SYNC_SETTINGS.retries),
+    };
+  } catch { return DEFAULT_SYNC_SETTINGS; }
+}
+
+export function saveSyncSettings(s: SyncSettings) {
+  try { localStorage.setItem(SETTINGS_KEY, JSON.stringify(s)); } catch { /* silent */ }
+}
+
+/** An interrupted run: which sync run it belongs to and the locations still to check. */
+export type SyncResume = {
+  layoutId: number;
+  runId: number;
+  pending: number[];
+};
+
+export function loadSyncResume(): SyncResume | null {
+  try {
+    const raw = JSON.parse(localStorage.getItem(RESUME_KEY) ?? 'null') as SyncResume | null;
+    return raw && Array.isArray(raw.pending) ? raw : null;
+  } catch { return null; }
+}
+
+export function saveSyncResume(r: SyncResume | null) {
+  try {
+    if (r === null) localStorage.removeItem(RESUME_KEY);
+    else localStorage.setItem(RESUME_KEY, JSON.stringify(r));
+  } catch { /* silent */ }
+}
+
+/** Resolves after `ms`, or early (without throwing) when `signal` aborts. */
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const t = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => { clearTimeout(t); resolve(); }, { once: true });
+  });
+}
+
+/**
+ * Run `attempt` with a timeout, retrying with exponential backoff (0.5s, 1s,
+ * 2s, …) while `isTransient` says the result is worth another try. The
+ * attempt's signal aborts on timeout or when `signal` aborts.
+ */
+export async function withRetry<R>(
+  attempt: (signal: AbortSignal) => Promise<R>,
+  isTransient: (result: R) => boolean,
+  settings: Pick<SyncSettings, 'timeoutMs' | 'retries'>,
+  signal: AbortSignal,
+): Promise<R> {
+  for (let i = 0; ; i++) {
+    const ctrl = new AbortController();
+    const timer = setTimeout(() => ctrl.abort(new DOMException('Timed out', 'TimeoutError')), settings.timeoutMs);
+    const onAbort = () => ctrl.abort(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    let result: R;
+    try {
+      result = await attempt(ctrl.signal);
+    } finally {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', onAbort);
+    }
+    if (signal.aborted || i >= settings.retries || !isTransient(result)) return result;
+    await sleep(BASE_DELAY_MS * 2 ** i, signal);
+  }
+}
+
+/**
+ * Feed `tasks` to `worker` with at most `concurrency` running at once, so one
+ * slow task never holds up the rest. Stops handing out tasks once `signal`
+ * aborts; results that arrive after that are dropped.
+ */
+export async function runQueue<T, R>(
+  tasks: T[],
+  worker: (task: T, signal: AbortSignal) => Promise<R>,
+  onResult: (task: T, result: R) => void,
+  concurrency: number,
+  signal: AbortSignal,
+): Promise<void> {
+  let next = 0;
+  const lane = async () => {
+    while (next < tasks.length && !signal.aborted) {
+      const task = tasks[next++];
+      const result = await worker(task, signal);
+      if (!signal.aborted) onResult(task, result);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, tasks.length)) }, lane));
+}
@@ -0,0 +1,85 @@
+import type { LocationStatus } from './status';
+
+export type LocationItem = {
+  id: number;
+  type: 'location';
+  name: string;
+  x: number;
+  y: number;
+  status: LocationStatus;
+  width: number;
+  height: number;
+  /** Quarter turn; omitted means 0. */
+  rotation?: 0 | 90;
+  /** How many items the location holds when full; omitted means unknown. */
+  capacity?: number;
+  /** Can't be dragged or resized on the canvas. */
+  locked?: boolean;
+  /** Id of the layer it's drawn on; omitted means the base layer. */
+  layer?: number;
+};
+
+export type TextItem = {
+  id: number;
+  type: 'text';
+  content: string;
+  x: number;
+  y: number;
+  fontSize: number;
+  /** Hex colour; omitted means the default text colour. */
+  color?: string;
+  locked?: boolean;
+  layer?: number;
+};
+
+export type LineItem = {
+  id: number;
+  type: 'line';
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  color?: string;
+  /** On-screen stroke width in pixels. */
+  strokeWidth?: number;
+  /** Arrowhead at the (x2, y2) end. */
+  arrow?: boolean;
+  locked?: boolean;
+  layer?: number;
+};
+
+export type Point = { x: number; y: number };
+
+/** A multi-segment line, e.g. a wall, or a traffic-flow arrow when `arrow` is set. */
+export type PolylineItem = {
+  id: number;
+  type: 'polyline';
+  /** At least two. */
+  points: Point[];
+  color?: string;
+  strokeWidth?: number;
+  /** Arrowhead at the last point. */
+  arrow?: boolean;
+  locked?: boolean;
+  layer?: number;
+};
+
+/** A labelled, tinted area such as "Engines" or "Quarantine"; holds the locations inside it. */
+export type ZoneItem = {
+  id: number;
+  type: 'zone';
+  /** May be empty for a plain rectangle. */
+  label: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  color?: string;
+  strokeWidth?: number;
+  fontSize?: number;
+  locked?: boolean;
+  layer?: number;
+};
+
+export type InventoryItem = LocationItem | TextItem | LineItem | PolylineItem | ZoneItem;
+export type Cam = { x: number; y: number; z: number };
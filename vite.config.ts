@@ -44,7 +44,8 @@ function corsProxy(): Plugin {
         proxyReq.on('error', (err) => {
           console.error('[cors-proxy]', err.message);
           if (!res.headersSent) {
-            res.writeHead(502, { 'Content-Type': 'text/plain' });
+            // Lets the app tell "couldn't reach the server" from the server's own 502
+            res.writeHead(502, { 'Content-Type': 'text/plain', 'x-proxy-error': '1' });
           }
           res.end('Proxy error: ' + err.message);
         });